@@ -3,10 +3,16 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "./hooks/use-auth";
+import { NostrProvider } from "./hooks/use-nostr";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import HomePage from "@/pages/home-page";
 import ProfilePage from "@/pages/profile-page";
+import ThreadPage from "@/pages/thread-page";
+import HashtagPage from "@/pages/hashtag-page";
+import MessagesPage from "@/pages/messages-page";
+import ConversationPage from "@/pages/conversation-page";
+import NotificationsPage from "@/pages/notifications-page";
 import { ProtectedRoute } from "./lib/protected-route";
 
 // GitHub Pages用のベースパスを取得（末尾のスラッシュを含める）
@@ -18,14 +24,21 @@ export default function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <Router base={base}>
-          <Switch>
-            <Route path="/auth" component={AuthPage} />
-            <ProtectedRoute path="/" component={HomePage} />
-            <ProtectedRoute path="/profile/:pubkey" component={ProfilePage} />
-            <Route component={NotFound} />
-          </Switch>
-        </Router>
+        <NostrProvider>
+          <Router base={base}>
+            <Switch>
+              <Route path="/auth" component={AuthPage} />
+              <ProtectedRoute path="/" component={HomePage} />
+              <ProtectedRoute path="/profile/:pubkey" component={ProfilePage} />
+              <ProtectedRoute path="/note/:id" component={ThreadPage} />
+              <ProtectedRoute path="/t/:tag" component={HashtagPage} />
+              <ProtectedRoute path="/messages" component={MessagesPage} />
+              <ProtectedRoute path="/messages/:pubkey" component={ConversationPage} />
+              <ProtectedRoute path="/notifications" component={NotificationsPage} />
+              <Route component={NotFound} />
+            </Switch>
+          </Router>
+        </NostrProvider>
         <Toaster />
       </AuthProvider>
     </QueryClientProvider>
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useNostr } from "@/hooks/use-nostr";
+import {
+  getFollowedPubkeys,
+  loadContactListHistory,
+  type ContactListSnapshot,
+} from "@/lib/contact-list";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// 置き換えられる前のフォローリストを一覧し、選んだ版を復元する
+export default function ContactListHistory() {
+  const { user } = useAuth();
+  const { followingCount, restoreContactList, isRestoringContactList } = useNostr();
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<ContactListSnapshot[]>([]);
+  const [restoring, setRestoring] = useState<ContactListSnapshot | null>(null);
+
+  if (!user) return null;
+
+  const handleOpenChange = (value: boolean) => {
+    // 開くたびに最新の履歴を読み込む
+    if (value) setHistory(loadContactListHistory(user.publicKey));
+    setOpen(value);
+  };
+
+  const handleRestore = () => {
+    if (!restoring) return;
+    restoreContactList(restoring, {
+      onSuccess: () => setHistory(loadContactListHistory(user.publicKey)),
+    });
+    setRestoring(null);
+  };
+
+  return (
+    <>
+      <Button variant="outline" className="w-full" onClick={() => handleOpenChange(true)}>
+        <History className="mr-2 h-4 w-4" />
+        フォローリストの履歴
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>フォローリストの履歴</DialogTitle>
+            <DialogDescription>
+              フォローリストを更新する前の版です。現在のフォロー数: {followingCount}
+            </DialogDescription>
+          </DialogHeader>
+          {history.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">履歴はありません</p>
+          ) : (
+            <div className="max-h-80 space-y-2 overflow-y-auto">
+              {history.map((snapshot) => (
+                <div
+                  key={snapshot.event.id}
+                  className="flex items-center justify-between gap-2 rounded-md border p-3"
+                >
+                  <div className="text-sm">
+                    <p className="font-medium">
+                      {format(new Date(snapshot.event.created_at * 1000), "yyyy/MM/dd HH:mm")}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {getFollowedPubkeys(snapshot.event.tags).length}人をフォロー
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isRestoringContactList}
+                    onClick={() => setRestoring(snapshot)}
+                  >
+                    {isRestoringContactList && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    復元
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!restoring} onOpenChange={(value) => !value && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>フォローリストを復元しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              現在のフォローリストは履歴に残り、
+              {restoring ? getFollowedPubkeys(restoring.event.tags).length : 0}
+              人をフォローしている版に置き換わります。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>復元</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { useInView } from "react-intersection-observer";
+import { useAuth } from "@/hooks/use-auth";
+import { useNostr } from "@/hooks/use-nostr";
+import type { useFollowLists } from "@/hooks/use-follow-lists";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import UserListItem from "@/components/user-list-item";
+
+export type FollowListTab = "following" | "followers";
+
+const RENDER_PAGE_SIZE = 50;
+
+interface FollowListDialogProps {
+  tab: FollowListTab | null;
+  onTabChange: (tab: FollowListTab | null) => void;
+  lists: ReturnType<typeof useFollowLists>;
+}
+
+function UserList({
+  pubkeys,
+  isLoading,
+  hasMore,
+  onLoadMore,
+  onSelect,
+}: {
+  pubkeys: string[];
+  isLoading: boolean;
+  hasMore: boolean;
+  onLoadMore?: () => void;
+  onSelect: () => void;
+}) {
+  const { user } = useAuth();
+  const { loadPostMetadata, isFollowing, toggleFollow, isTogglingFollow } = useNostr();
+  // 大きなリストは少しずつ描画する
+  const [renderCount, setRenderCount] = useState(RENDER_PAGE_SIZE);
+  const { ref: loadMoreRef, inView } = useInView();
+
+  useEffect(() => {
+    if (!inView || isLoading) return;
+    if (renderCount < pubkeys.length) {
+      setRenderCount((count) => count + RENDER_PAGE_SIZE);
+    } else if (hasMore) {
+      onLoadMore?.();
+    }
+  }, [inView, isLoading, renderCount, pubkeys.length, hasMore, onLoadMore]);
+
+  if (pubkeys.length === 0 && !isLoading && !hasMore) {
+    return <p className="text-center text-muted-foreground py-4">ユーザーが見つかりません</p>;
+  }
+
+  return (
+    <div className="max-h-96 overflow-y-auto">
+      <div className="divide-y">
+        {pubkeys.slice(0, renderCount).map((pubkey) => (
+          <UserListItem
+            key={pubkey}
+            pubkey={pubkey}
+            loadMetadata={loadPostMetadata}
+            isFollowing={isFollowing(pubkey)}
+            onToggleFollow={user && user.publicKey !== pubkey ? toggleFollow : undefined}
+            isTogglingFollow={isTogglingFollow}
+            onSelect={onSelect}
+          />
+        ))}
+      </div>
+      {(renderCount < pubkeys.length || hasMore || isLoading) && (
+        <div ref={loadMoreRef} className="space-y-2 py-2">
+          {isLoading &&
+            [...Array(3)].map((_, i) => <Skeleton key={i} className="h-12" />)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// フォロー中・フォロワーの一覧をタブで切り替えて表示する
+export default function FollowListDialog({ tab, onTabChange, lists }: FollowListDialogProps) {
+  const close = () => onTabChange(null);
+
+  return (
+    <Dialog open={!!tab} onOpenChange={(value) => !value && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{tab === "followers" ? "フォロワー" : "フォロー中"}</DialogTitle>
+        </DialogHeader>
+        <Tabs value={tab ?? "following"} onValueChange={(value) => onTabChange(value as FollowListTab)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="following">フォロー中</TabsTrigger>
+            <TabsTrigger value="followers">フォロワー</TabsTrigger>
+          </TabsList>
+          <TabsContent value="following">
+            <UserList
+              pubkeys={lists.following}
+              isLoading={lists.isLoadingFollowing}
+              hasMore={false}
+              onSelect={close}
+            />
+          </TabsContent>
+          <TabsContent value="followers">
+            <UserList
+              pubkeys={lists.followers}
+              isLoading={lists.isLoadingFollowers}
+              hasMore={lists.hasMoreFollowers}
+              onLoadMore={lists.loadMoreFollowers}
+              onSelect={close}
+            />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
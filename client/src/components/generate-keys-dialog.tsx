@@ -0,0 +1,40 @@
+import { useAuth } from "@/hooks/use-auth";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import NewPassphraseForm from "./new-passphrase-form";
+
+interface GenerateKeysDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// 新しい鍵を生成し、NIP-49のパスフレーズで暗号化して保存する
+export default function GenerateKeysDialog({ open, onOpenChange }: GenerateKeysDialogProps) {
+  const { generateNewKeys, isLoading } = useAuth();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Generate New Keys</DialogTitle>
+          <DialogDescription>
+            Your private key is stored in this browser encrypted with this passphrase (NIP-49).
+            You will be asked for it when you come back.
+          </DialogDescription>
+        </DialogHeader>
+        {open && (
+          <NewPassphraseForm
+            onSubmit={generateNewKeys}
+            isSubmitting={isLoading}
+            submitLabel="Generate Keys"
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { isNcryptsec } from "@/lib/nip49";
+
+interface ImportKeyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// NIP-49: エクスポートしたncryptsecを読み込んでログインする
+export default function ImportKeyDialog({ open, onOpenChange }: ImportKeyDialogProps) {
+  const { loginWithNcryptsec, isLoading } = useAuth();
+  const [ncryptsec, setNcryptsec] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Encrypted Key</DialogTitle>
+          <DialogDescription>
+            Paste an ncryptsec exported from this or another Nostr client.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            loginWithNcryptsec(ncryptsec, passphrase);
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="ncryptsec">ncryptsec</Label>
+            <Input
+              id="ncryptsec"
+              placeholder="ncryptsec1..."
+              value={ncryptsec}
+              onChange={(e) => setNcryptsec(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-passphrase">Passphrase</Label>
+            <Input
+              id="import-passphrase"
+              type="password"
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || !isNcryptsec(ncryptsec) || !passphrase}
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
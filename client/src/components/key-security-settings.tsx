@@ -0,0 +1,65 @@
+import { Lock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { AUTO_LOCK_OPTIONS } from "@/lib/nip49";
+import CopyButton from "./copy-button";
+
+// NIP-49: 暗号化した秘密鍵のエクスポートと自動ロックの設定（生成した鍵でログインしている場合のみ）
+export default function KeySecuritySettings() {
+  const { user, autoLockMinutes, setAutoLockMinutes, lock } = useAuth();
+
+  if (user?.type !== "generated" || !user.ncryptsec) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">秘密鍵の保護</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>暗号化した秘密鍵（ncryptsec）</Label>
+          <div className="flex items-center gap-1">
+            <p className="flex-1 truncate rounded-md border px-3 py-2 font-mono text-xs">
+              {user.ncryptsec}
+            </p>
+            <CopyButton value={user.ncryptsec} label="ncryptsecをコピー" />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            他のクライアントへの移行やバックアップに使えます。復号には現在のパスフレーズが必要です。
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auto-lock">自動ロック</Label>
+          <Select
+            value={String(autoLockMinutes)}
+            onValueChange={(value) => setAutoLockMinutes(Number(value))}
+          >
+            <SelectTrigger id="auto-lock">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTO_LOCK_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes === 0 ? "ロックしない" : `${minutes}分間操作がないとき`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" className="w-full" onClick={lock}>
+          <Lock className="mr-2 h-4 w-4" />
+          今すぐロック
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
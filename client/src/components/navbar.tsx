@@ -1,4 +1,5 @@
-import { MenuIcon } from "lucide-react";
+import { BellIcon, MailIcon, MenuIcon } from "lucide-react";
+import { useLocation } from "wouter";
 import { Button } from "./ui/button";
 import {
   Sheet,
@@ -8,10 +9,14 @@ import {
   SheetTrigger,
 } from "./ui/sheet";
 import UserProfile from "./user-profile";
+import ProfileSearch from "./profile-search";
 import { useAuth } from "@/hooks/use-auth";
+import { useNotifications } from "@/hooks/use-notifications";
 
 export default function Navbar() {
   const { user, logout } = useAuth();
+  const [, setLocation] = useLocation();
+  const { unreadCount } = useNotifications();
 
   if (!user) return null;
 
@@ -19,29 +24,55 @@ export default function Navbar() {
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container mx-auto px-4 h-14 flex items-center justify-between">
         <h1 className="text-lg font-semibold sm:text-xl">Nostr Client</h1>
-        <Sheet>
-          <SheetTrigger asChild>
-            <Button variant="ghost" size="icon" className="shrink-0">
-              <MenuIcon className="h-5 w-5" />
-              <span className="sr-only">メニューを開く</span>
-            </Button>
-          </SheetTrigger>
-          <SheetContent side="right" className="w-[280px] sm:w-[320px] px-4">
-            <SheetHeader className="mb-4">
-              <SheetTitle className="text-left">メニュー</SheetTitle>
-            </SheetHeader>
-            <div className="space-y-6">
-              <UserProfile />
-              <Button 
-                variant="outline" 
-                onClick={() => logout()}
-                className="w-full"
-              >
-                ログアウト
+        <div className="flex items-center gap-1">
+          <ProfileSearch />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative shrink-0"
+            onClick={() => setLocation("/notifications")}
+          >
+            <BellIcon className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs leading-5 text-center">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+            <span className="sr-only">通知</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="shrink-0"
+            onClick={() => setLocation("/messages")}
+          >
+            <MailIcon className="h-5 w-5" />
+            <span className="sr-only">メッセージ</span>
+          </Button>
+          <Sheet>
+            <SheetTrigger asChild>
+              <Button variant="ghost" size="icon" className="shrink-0">
+                <MenuIcon className="h-5 w-5" />
+                <span className="sr-only">メニューを開く</span>
               </Button>
-            </div>
-          </SheetContent>
-        </Sheet>
+            </SheetTrigger>
+            <SheetContent side="right" className="w-[280px] sm:w-[320px] px-4">
+              <SheetHeader className="mb-4">
+                <SheetTitle className="text-left">メニュー</SheetTitle>
+              </SheetHeader>
+              <div className="space-y-6">
+                <UserProfile />
+                <Button 
+                  variant="outline" 
+                  onClick={() => logout()}
+                  className="w-full"
+                >
+                  ログアウト
+                </Button>
+              </div>
+            </SheetContent>
+          </Sheet>
+        </div>
       </div>
     </header>
   );
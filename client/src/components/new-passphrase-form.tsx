@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { validatePassphrase } from "@/lib/nip49";
+
+interface NewPassphraseFormProps {
+  onSubmit: (passphrase: string) => void | Promise<void>;
+  isSubmitting: boolean;
+  submitLabel: string;
+}
+
+// 秘密鍵を暗号化するパスフレーズの入力（確認用の再入力つき）
+export default function NewPassphraseForm({
+  onSubmit,
+  isSubmitting,
+  submitLabel,
+}: NewPassphraseFormProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const validationError = validatePassphrase(passphrase, confirmation);
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!validationError) onSubmit(passphrase);
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="new-passphrase">Passphrase</Label>
+        <Input
+          id="new-passphrase"
+          type="password"
+          autoComplete="new-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm-passphrase">Confirm passphrase</Label>
+        <Input
+          id="confirm-passphrase"
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+        />
+      </div>
+      {passphrase && confirmation && validationError && (
+        <p className="text-sm text-destructive">{validationError}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        The passphrase cannot be recovered. If you forget it, your key is lost unless you exported it elsewhere.
+      </p>
+      <Button type="submit" className="w-full" disabled={!!validationError || isSubmitting}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,43 @@
+import { BadgeCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatNip05 } from "@/lib/nip05";
+import { useNip05Verification } from "@/hooks/use-nip05";
+
+interface Nip05BadgeProps {
+  pubkey: string;
+  nip05?: string;
+  // 識別子も表示する（プロフィール用）。falseの場合は確認済みのアイコンのみ
+  showIdentifier?: boolean;
+  className?: string;
+}
+
+// NIP-05の確認済みバッジ
+export default function Nip05Badge({ pubkey, nip05, showIdentifier, className }: Nip05BadgeProps) {
+  const verified = useNip05Verification(pubkey, nip05);
+
+  if (!nip05) return null;
+  if (!showIdentifier) {
+    return verified ? (
+      <BadgeCheck
+        className={cn("inline h-4 w-4 shrink-0 text-primary", className)}
+        aria-label={formatNip05(nip05)}
+      />
+    ) : null;
+  }
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 text-sm",
+        verified ? "text-primary" : "text-muted-foreground",
+        className,
+      )}
+      title={verified === false ? "NIP-05の確認に失敗しました" : undefined}
+    >
+      {verified && <BadgeCheck className="h-4 w-4" />}
+      <span className={cn("break-all", verified === false && "line-through")}>
+        {formatNip05(nip05)}
+      </span>
+    </span>
+  );
+}
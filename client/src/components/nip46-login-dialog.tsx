@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useState } from "react";
+import QRCode from "qrcode";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import CopyButton from "@/components/copy-button";
+import {
+  NOSTR_CONNECT_RELAYS,
+  createNostrConnectUri,
+  generateClientSecretKey,
+  generateConnectSecret,
+  waitForNostrConnect,
+} from "@/lib/nip46";
+
+interface Nip46LoginDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// サイナーアプリで読み取るnostrconnect://のQRコードを表示し、接続を待つ
+function NostrConnectPanel() {
+  const { loginWithNip46Session } = useAuth();
+  const { toast } = useToast();
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  // 表示するたびに新しい通信用の鍵とsecretを用意する
+  const connection = useMemo(() => {
+    const clientSecretKey = generateClientSecretKey();
+    const secret = generateConnectSecret();
+    return {
+      clientSecretKey,
+      secret,
+      uri: createNostrConnectUri({
+        clientSecretKey,
+        relays: NOSTR_CONNECT_RELAYS,
+        secret,
+        name: document.title || "Nostr Client",
+      }),
+    };
+  }, []);
+
+  useEffect(() => {
+    QRCode.toDataURL(connection.uri, { margin: 1, width: 256 })
+      .then(setQrCode)
+      .catch((error) => console.error("Failed to render QR code:", error));
+
+    const controller = new AbortController();
+    waitForNostrConnect({
+      clientSecretKey: connection.clientSecretKey,
+      relays: NOSTR_CONNECT_RELAYS,
+      secret: connection.secret,
+      signal: controller.signal,
+    })
+      .then(({ session, pubkey }) => loginWithNip46Session(session, pubkey))
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("Nostr Connect failed:", error);
+        toast({
+          title: "Login Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+    return () => controller.abort();
+    // loginWithNip46Sessionはレンダリングごとに作り直されるため、接続情報が変わったときのみ待ち直す
+  }, [connection]);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      {qrCode ? (
+        <img src={qrCode} alt="Nostr Connect QR code" className="h-64 w-64 rounded-md border" />
+      ) : (
+        <div className="flex h-64 w-64 items-center justify-center rounded-md border">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      )}
+      <p className="text-sm text-muted-foreground text-center">
+        Scan with your signer app (e.g. Amber, nsec.app), or open the link on this device.
+      </p>
+      <div className="flex w-full items-center gap-2">
+        <Button asChild variant="outline" className="flex-grow">
+          <a href={connection.uri}>Open Signer App</a>
+        </Button>
+        <CopyButton value={connection.uri} label="Copy connection URI" />
+      </div>
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Waiting for approval...
+      </p>
+    </div>
+  );
+}
+
+// NIP-46: リモートサイナーでログインする（bunker://の入力、またはnostrconnect://のQRコード）
+export default function Nip46LoginDialog({ open, onOpenChange }: Nip46LoginDialogProps) {
+  const { loginWithBunker, isLoading } = useAuth();
+  const [bunkerUri, setBunkerUri] = useState("");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Remote Signer</DialogTitle>
+          <DialogDescription>
+            Sign with a remote signer (NIP-46). Your private key never leaves the signer.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="nostrconnect">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="nostrconnect">QR Code</TabsTrigger>
+            <TabsTrigger value="bunker">Bunker URI</TabsTrigger>
+          </TabsList>
+          <TabsContent value="nostrconnect">
+            {open && <NostrConnectPanel />}
+          </TabsContent>
+          <TabsContent value="bunker">
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                loginWithBunker(bunkerUri);
+              }}
+            >
+              <Input
+                placeholder="bunker://... or name@example.com"
+                value={bunkerUri}
+                onChange={(e) => setBunkerUri(e.target.value)}
+              />
+              <Button type="submit" className="w-full" disabled={isLoading || !bunkerUri.trim()}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Connect
+              </Button>
+            </form>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
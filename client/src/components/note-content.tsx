@@ -0,0 +1,240 @@
+import { memo, useEffect, useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { Post } from "@shared/schema";
+import { useNostr, useUserMetadata } from "@/hooks/use-nostr";
+import { parseContent, type ContentToken } from "@/lib/content-parser";
+import { encodeNevent, encodeNote, encodeNpub, shortNpub } from "@/lib/nip19";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// 引用ノートの入れ子の上限（これより深いものはリンクとして表示）
+const MAX_EMBED_DEPTH = 1;
+
+interface NoteContentProps {
+  content: string;
+  tags?: string[][];
+  depth?: number;
+}
+
+function ProfileChip({ pubkey }: { pubkey: string }) {
+  const { loadPostMetadata } = useNostr();
+  const metadata = useUserMetadata(pubkey);
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    loadPostMetadata(pubkey);
+  }, [pubkey, loadPostMetadata]);
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-sm font-medium cursor-pointer hover:underline align-middle"
+      onClick={(e) => {
+        e.stopPropagation();
+        setLocation(`/profile/${encodeNpub(pubkey)}`);
+      }}
+    >
+      {metadata?.picture && (
+        <img src={metadata.picture} alt="" className="h-4 w-4 rounded-full object-cover" />
+      )}
+      @{metadata?.name || shortNpub(pubkey)}
+    </span>
+  );
+}
+
+export function EmbeddedNote({
+  id,
+  relays,
+  author,
+  depth = 0,
+}: {
+  id: string;
+  relays: string[];
+  author?: string;
+  depth?: number;
+}) {
+  const { fetchPost, loadPostMetadata } = useNostr();
+  const [post, setPost] = useState<Post | null>(null);
+  const metadata = useUserMetadata(post?.pubkey);
+  const [isLoading, setIsLoading] = useState(true);
+  const [, setLocation] = useLocation();
+
+  // relaysは配列のため、内容が変わった場合のみ再取得する
+  const relayKey = relays.join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchPost(id, relayKey ? relayKey.split(",") : [])
+      .then((result) => {
+        if (!cancelled) setPost(result);
+      })
+      .catch((error) => console.error("[NoteContent] Failed to load embedded note:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, relayKey, fetchPost]);
+
+  useEffect(() => {
+    if (post) loadPostMetadata(post.pubkey);
+  }, [post, loadPostMetadata]);
+
+  const nevent = encodeNevent({ id, relays, author });
+
+  if (isLoading) {
+    return <Skeleton className="h-20 my-2" />;
+  }
+
+  if (!post) {
+    return (
+      <span
+        className="text-primary cursor-pointer hover:underline break-all"
+        onClick={() => setLocation(`/note/${nevent}`)}
+      >
+        nostr:{encodeNote(id)}
+      </span>
+    );
+  }
+
+  return (
+    <div
+      className="my-2 rounded-md border p-3 space-y-2 cursor-pointer hover:bg-muted/50 whitespace-normal"
+      onClick={(e) => {
+        e.stopPropagation();
+        setLocation(`/note/${nevent}`);
+      }}
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <Avatar className="h-5 w-5">
+          {metadata?.picture ? (
+            <AvatarImage src={metadata.picture} alt={metadata.name} />
+          ) : (
+            <AvatarFallback className="text-[10px]">
+              {(metadata?.name?.[0] || post.pubkey.slice(0, 2)).toUpperCase()}
+            </AvatarFallback>
+          )}
+        </Avatar>
+        <span className="font-semibold">{metadata?.name || shortNpub(post.pubkey)}</span>
+        <span className="text-muted-foreground">
+          {format(new Date(post.createdAt), "yyyy/MM/dd HH:mm")}
+        </span>
+      </div>
+      <NoteContent content={post.content} tags={post.metadata?.tags} depth={depth + 1} />
+    </div>
+  );
+}
+
+function NoteContent({ content, tags = [], depth = 0 }: NoteContentProps) {
+  const [, setLocation] = useLocation();
+  const [lightboxUrl, setLightboxUrl] = useState<string | null>(null);
+  const tokens = useMemo(() => parseContent(content, tags), [content, tags]);
+
+  const renderToken = (token: ContentToken, index: number) => {
+    switch (token.type) {
+      case "text":
+        return <span key={index}>{token.text}</span>;
+      case "url":
+        return (
+          <a
+            key={index}
+            href={token.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline break-all"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {token.url}
+          </a>
+        );
+      case "image":
+        return (
+          <img
+            key={index}
+            src={token.url}
+            alt=""
+            loading="lazy"
+            className="block my-2 max-h-80 rounded-md object-contain cursor-zoom-in"
+            onClick={(e) => {
+              e.stopPropagation();
+              setLightboxUrl(token.url);
+            }}
+          />
+        );
+      case "video":
+        return (
+          <video
+            key={index}
+            src={token.url}
+            controls
+            preload="metadata"
+            className="block my-2 max-h-80 rounded-md"
+          />
+        );
+      case "hashtag":
+        return (
+          <span
+            key={index}
+            className="text-primary cursor-pointer hover:underline"
+            onClick={(e) => {
+              e.stopPropagation();
+              setLocation(`/t/${encodeURIComponent(token.tag)}`);
+            }}
+          >
+            #{token.tag}
+          </span>
+        );
+      case "mention":
+        return <ProfileChip key={index} pubkey={token.pubkey} />;
+      case "note":
+        if (depth >= MAX_EMBED_DEPTH) {
+          const nevent = encodeNevent({ id: token.id, relays: token.relays, author: token.author });
+          return (
+            <span
+              key={index}
+              className="text-primary cursor-pointer hover:underline break-all"
+              onClick={(e) => {
+                e.stopPropagation();
+                setLocation(`/note/${nevent}`);
+              }}
+            >
+              nostr:{encodeNote(token.id)}
+            </span>
+          );
+        }
+        return (
+          <EmbeddedNote
+            key={index}
+            id={token.id}
+            relays={token.relays}
+            author={token.author}
+            depth={depth}
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      <div className="whitespace-pre-wrap break-words">{tokens.map(renderToken)}</div>
+
+      <Dialog open={!!lightboxUrl} onOpenChange={(open) => !open && setLightboxUrl(null)}>
+        <DialogContent className="max-w-[90vw] p-2">
+          <DialogTitle className="sr-only">画像</DialogTitle>
+          {lightboxUrl && (
+            <img
+              src={lightboxUrl}
+              alt=""
+              className="max-h-[85vh] w-full object-contain"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+export default memo(NoteContent);
@@ -1,14 +1,16 @@
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Heart, MessageSquare, Share, MoreVertical } from "lucide-react";
+import { Heart, MessageSquare, Share, MoreVertical, Repeat2, Quote } from "lucide-react";
 import { Post } from "@shared/schema";
 import { format } from "date-fns";
-import { useNostr } from "@/hooks/use-nostr";
+import { useNostr, useUserMetadata, summarizeReactions, KIND, type NostrEvent } from "@/hooks/use-nostr";
+import { useAuth } from "@/hooks/use-auth";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
-import { memo, useEffect, useState } from "react";
+import { memo, useEffect, useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
 import { useInView } from "react-intersection-observer";
+import Nip05Badge from "@/components/nip05-badge";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -22,16 +24,40 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useLocation } from "wouter";
+import PostForm from "@/components/post-form";
+import CopyButton from "@/components/copy-button";
+import NoteContent from "@/components/note-content";
+import { encodeNevent, encodeNpub, shortNpub } from "@/lib/nip19";
+import { useToast } from "@/hooks/use-toast";
 
 interface PostCardProps {
   post: Post;
   priority?: boolean;
+  highlighted?: boolean;
+  onReply?: (reply: Post) => void;
 }
 
-function PostCard({ post, priority = false }: PostCardProps) {
-  const { getUserMetadata, loadPostMetadata } = useNostr();
+function PostCard({ post, priority = false, highlighted = false, onReply }: PostCardProps) {
+  const {
+    loadPostMetadata,
+    createReply,
+    isCreatingReply,
+    watchReactions,
+    react,
+    retractReaction,
+    isReacting,
+    repost,
+    isReposting,
+    createQuotePost,
+    isCreatingQuotePost,
+  } = useNostr();
+  const { user } = useAuth();
+  const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(!priority);
   const [showJson, setShowJson] = useState(false);
+  const [showReply, setShowReply] = useState(false);
+  const [showQuote, setShowQuote] = useState(false);
+  const [reactionEvents, setReactionEvents] = useState<Map<string, NostrEvent>>(new Map());
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [, setLocation] = useLocation();
   const { ref, inView } = useInView({
@@ -45,8 +71,45 @@ function PostCard({ post, priority = false }: PostCardProps) {
     }
   }, [inView, post.pubkey, loadPostMetadata]);
 
-  const metadata = getUserMetadata(post.pubkey);
+  // 表示されている間だけリアクションを購読する
+  useEffect(() => {
+    if (!inView) return;
+    return watchReactions(post.nostrEventId, (event) => {
+      setReactionEvents((current) => {
+        // NIP-09: 削除リクエストはリアクションの作成者本人によるもののみ反映する
+        if (event.kind === KIND.DELETION) {
+          const deletedIds = event.tags
+            .filter(([name, id]) => name === "e" && current.get(id)?.pubkey === event.pubkey)
+            .map(([, id]) => id);
+          if (deletedIds.length === 0) return current;
+          const updated = new Map(current);
+          deletedIds.forEach((id) => updated.delete(id));
+          return updated;
+        }
+        if (current.has(event.id!)) return current;
+        const updated = new Map(current);
+        updated.set(event.id!, event);
+        return updated;
+      });
+    });
+  }, [inView, post.nostrEventId, watchReactions]);
+
+  const reactions = useMemo(
+    () => summarizeReactions(Array.from(reactionEvents.values()), user?.publicKey),
+    [reactionEvents, user?.publicKey],
+  );
+  const likeSummary = reactions.find((reaction) => reaction.content === "+");
+  const emojiReactions = reactions.filter((reaction) => reaction.content !== "+");
+
+  const metadata = useUserMetadata(post.pubkey);
   const shortPubkey = post.pubkey.slice(0, 8);
+  const npub = encodeNpub(post.pubkey);
+  const nevent = encodeNevent({
+    id: post.nostrEventId,
+    relays: post.metadata?.relays?.slice(0, 2),
+    author: post.pubkey,
+    kind: post.metadata?.kind,
+  });
 
   useEffect(() => {
     if (!priority) {
@@ -66,7 +129,7 @@ function PostCard({ post, priority = false }: PostCardProps) {
     return (
       <Avatar 
         className="h-10 w-10 cursor-pointer hover:opacity-80 transition-opacity"
-        onClick={() => setLocation(`/profile/${post.pubkey}`)}
+        onClick={() => setLocation(`/profile/${npub}`)}
       >
         {metadata?.picture ? (
           <AvatarImage 
@@ -85,18 +148,64 @@ function PostCard({ post, priority = false }: PostCardProps) {
     );
   };
 
+  const handleCopy = async (value: string) => {
+    setDropdownOpen(false);
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: "コピーしました", description: value });
+    } catch (error) {
+      console.error("Failed to copy to clipboard:", error);
+    }
+  };
+
   const handleJsonDialog = () => {
     setShowJson(true);
     setDropdownOpen(false);
   };
 
   const handleNameClick = () => {
-    setLocation(`/profile/${post.pubkey}`);
+    setLocation(`/profile/${npub}`);
+  };
+
+  // 自分のリアクションがあれば取り消し、なければ送信する
+  const handleReaction = (content: string, emojiUrl?: string, selfReactionIds: string[] = []) => {
+    if (selfReactionIds.length > 0) {
+      retractReaction(selfReactionIds, {
+        onSuccess: (reactionIds) => {
+          setReactionEvents((current) => {
+            const updated = new Map(current);
+            reactionIds.forEach((id) => updated.delete(id));
+            return updated;
+          });
+        },
+      });
+    } else {
+      react({ post, content, emojiUrl });
+    }
+  };
+
+  const handleQuoteSubmit = (content: string) => {
+    createQuotePost(
+      { content, quoted: post },
+      { onSuccess: () => setShowQuote(false) },
+    );
+  };
+
+  const handleReplySubmit = (content: string) => {
+    createReply(
+      { content, parent: post },
+      {
+        onSuccess: (reply) => {
+          setShowReply(false);
+          onReply?.(reply);
+        },
+      },
+    );
   };
 
   return (
     <>
-      <Card ref={ref} className={cn(isLoading && "opacity-70")}>
+      <Card ref={ref} className={cn(isLoading && "opacity-70", highlighted && "border-primary")}>
         <CardHeader className="flex flex-row items-center gap-4">
           {renderAvatar()}
           <div className="space-y-1 flex-grow">
@@ -104,13 +213,17 @@ function PostCard({ post, priority = false }: PostCardProps) {
               <Skeleton className="h-4 w-24" />
             ) : (
               <p 
-                className="font-semibold cursor-pointer hover:underline"
+                className="flex items-center gap-1 font-semibold cursor-pointer hover:underline"
                 onClick={handleNameClick}
               >
-                {metadata?.name || `nostr:${shortPubkey}`}
+                {metadata?.name || shortNpub(post.pubkey)}
+                <Nip05Badge pubkey={post.pubkey} nip05={metadata?.nip05} />
               </p>
             )}
-            <p className="text-sm text-muted-foreground">
+            <p
+              className="text-sm text-muted-foreground cursor-pointer hover:underline"
+              onClick={() => setLocation(`/note/${nevent}`)}
+            >
               {format(new Date(post.createdAt), "yyyy/MM/dd HH:mm:ss")}
             </p>
           </div>
@@ -121,7 +234,13 @@ function PostCard({ post, priority = false }: PostCardProps) {
                 <span className="sr-only">メニューを開く</span>
               </Button>
             </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="min-w-[140px] w-[140px]">
+            <DropdownMenuContent align="end" className="min-w-[160px]">
+              <DropdownMenuItem onClick={() => handleCopy(`nostr:${nevent}`)}>
+                投稿IDをコピー
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleCopy(npub)}>
+                公開鍵をコピー
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleJsonDialog}>
                 JSONを確認
               </DropdownMenuItem>
@@ -129,29 +248,128 @@ function PostCard({ post, priority = false }: PostCardProps) {
           </DropdownMenu>
         </CardHeader>
         <CardContent>
-          <p className="whitespace-pre-wrap">{post.content}</p>
+          <NoteContent content={post.content} tags={post.metadata?.tags} />
         </CardContent>
-        <CardFooter className="flex gap-4">
-          <Button variant="ghost" size="sm">
-            <Heart className="h-4 w-4 mr-2" />
-            Like
-          </Button>
-          <Button variant="ghost" size="sm">
-            <MessageSquare className="h-4 w-4 mr-2" />
-            Reply
-          </Button>
-          <Button variant="ghost" size="sm">
-            <Share className="h-4 w-4 mr-2" />
-            Share
-          </Button>
+        <CardFooter className="flex flex-col items-start gap-2">
+          {emojiReactions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {emojiReactions.map((reaction) => (
+                <Button
+                  key={`${reaction.content}-${reaction.emojiUrl ?? ""}`}
+                  variant={reaction.selfReactionIds.length > 0 ? "secondary" : "outline"}
+                  size="sm"
+                  className="h-7 px-2"
+                  disabled={isReacting}
+                  onClick={() =>
+                    handleReaction(reaction.content, reaction.emojiUrl, reaction.selfReactionIds)
+                  }
+                >
+                  {reaction.emojiUrl ? (
+                    <img
+                      src={reaction.emojiUrl}
+                      alt={reaction.content}
+                      className="h-4 w-4 object-contain"
+                    />
+                  ) : (
+                    <span>{reaction.content === "-" ? "👎" : reaction.content}</span>
+                  )}
+                  <span className="ml-1 text-xs">{reaction.count}</span>
+                </Button>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isReacting}
+              onClick={() => handleReaction("+", undefined, likeSummary?.selfReactionIds)}
+            >
+              <Heart
+                className={cn(
+                  "h-4 w-4 mr-2",
+                  !!likeSummary?.selfReactionIds.length && "fill-red-500 text-red-500",
+                )}
+              />
+              Like
+              {likeSummary && <span className="ml-1">{likeSummary.count}</span>}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setShowReply(true)}>
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Reply
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={isReposting}>
+                  <Share className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => repost(post)}>
+                  <Repeat2 className="h-4 w-4 mr-2" />
+                  リポスト
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowQuote(true)}>
+                  <Quote className="h-4 w-4 mr-2" />
+                  引用して投稿
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </CardFooter>
       </Card>
 
+      <Dialog open={showReply} onOpenChange={setShowReply}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>返信</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3 border-l-2 pl-3">
+            {post.content}
+          </p>
+          <PostForm
+            onSubmit={handleReplySubmit}
+            isSubmitting={isCreatingReply}
+            placeholder="返信を入力..."
+            submitLabel="Reply"
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showQuote} onOpenChange={setShowQuote}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>引用して投稿</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3 border-l-2 pl-3">
+            {post.content}
+          </p>
+          <PostForm
+            onSubmit={handleQuoteSubmit}
+            isSubmitting={isCreatingQuotePost}
+            placeholder="コメントを追加..."
+          />
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showJson} onOpenChange={setShowJson}>
         <DialogContent className="sm:max-w-[600px]">
           <DialogHeader>
             <DialogTitle>投稿データ</DialogTitle>
           </DialogHeader>
+          <div className="space-y-1 text-sm">
+            {[
+              ["nevent", nevent],
+              ["npub", npub],
+            ].map(([label, value]) => (
+              <div key={label} className="flex items-center gap-2">
+                <span className="font-medium w-14 shrink-0">{label}</span>
+                <span className="text-muted-foreground truncate">{value}</span>
+                <CopyButton value={value} />
+              </div>
+            ))}
+          </div>
           <pre className="bg-muted p-4 rounded-md overflow-auto max-h-[400px]">
             {JSON.stringify(post, null, 2)}
           </pre>
@@ -7,9 +7,16 @@ import { Loader2 } from "lucide-react";
 interface PostFormProps {
   onSubmit: (content: string) => void;
   isSubmitting: boolean;
+  placeholder?: string;
+  submitLabel?: string;
 }
 
-export default function PostForm({ onSubmit, isSubmitting }: PostFormProps) {
+export default function PostForm({
+  onSubmit,
+  isSubmitting,
+  placeholder = "What's on your mind?",
+  submitLabel = "Post",
+}: PostFormProps) {
   const [content, setContent] = useState("");
 
   const handleSubmit = useCallback((e: React.FormEvent) => {
@@ -35,7 +42,7 @@ export default function PostForm({ onSubmit, isSubmitting }: PostFormProps) {
       <CardContent className="pt-6">
         <form onSubmit={handleSubmit} className="space-y-4">
           <Textarea
-            placeholder="What's on your mind?"
+            placeholder={placeholder}
             value={content}
             onChange={(e) => setContent(e.target.value)}
             onKeyDown={handleKeyDown}
@@ -44,7 +51,7 @@ export default function PostForm({ onSubmit, isSubmitting }: PostFormProps) {
           <div className="flex justify-end">
             <Button type="submit" disabled={isSubmitting || !content.trim()}>
               {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Post
+              {submitLabel}
             </Button>
           </div>
         </form>
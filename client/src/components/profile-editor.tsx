@@ -1,24 +1,90 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Loader2 } from "lucide-react";
-import { useNostr } from "@/hooks/use-nostr";
+import { useNostr, useNostrClient } from "@/hooks/use-nostr";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  PROFILE_FIELDS,
+  diffProfile,
+  getUnknownProfileFields,
+  mergeProfile,
+  parseProfileContent,
+  profileFormSchema,
+  toProfileFormValues,
+  type ProfileChange,
+  type ProfileFieldKey,
+  type ProfileFormValues,
+} from "@/lib/profile-metadata";
 
 interface ProfileEditorProps {
   onClose?: () => void;
 }
 
+// 現在のkind 0の内容
+interface LoadedProfile {
+  content: Record<string, unknown>;
+  tags: string[][];
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "（なし）";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
 export default function ProfileEditor({ onClose }: ProfileEditorProps) {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const { isReady, fetchProfileEvent } = useNostrClient();
   const { updateProfile, isUpdatingProfile } = useNostr();
-  const [name, setName] = useState("");
-  const [about, setAbout] = useState("");
-  const [picture, setPicture] = useState("");
+  const [profile, setProfile] = useState<LoadedProfile | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [values, setValues] = useState<ProfileFormValues>(() => toProfileFormValues({}));
+  const [errors, setErrors] = useState<Partial<Record<ProfileFieldKey, string>>>({});
+  const [pending, setPending] = useState<{
+    content: Record<string, unknown>;
+    changes: ProfileChange[];
+  } | null>(null);
+
+  // 他のクライアントで設定した項目を消さないよう、最新のkind 0を読み込んでから編集する
+  const loadProfile = useCallback(async () => {
+    if (!user || !isReady) return;
+    setLoadFailed(false);
+    try {
+      const { event, ok } = await fetchProfileEvent(user.publicKey);
+      // どのリレーからも応答がなければ、既存の項目を消してしまわないよう編集させない
+      if (!ok) {
+        setLoadFailed(true);
+        return;
+      }
+      const content = parseProfileContent(event?.content);
+      setProfile({ content, tags: event?.tags ?? [] });
+      setValues(toProfileFormValues(content));
+    } catch (error) {
+      console.error("Failed to load profile:", error);
+      setLoadFailed(true);
+    }
+  }, [user, isReady, fetchProfileEvent]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
 
   if (user?.type === "extension") {
     return (
@@ -37,77 +103,163 @@ export default function ProfileEditor({ onClose }: ProfileEditorProps) {
     );
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleChange = (key: ProfileFieldKey, value: string) => {
+    setValues((current) => ({ ...current, [key]: value }));
+    setErrors((current) => ({ ...current, [key]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!profile) return;
 
-    const profile = {
-      ...(name && { name }),
-      ...(about && { about }),
-      ...(picture && { picture })
-    };
+    const result = profileFormSchema.safeParse(values);
+    if (!result.success) {
+      const fieldErrors: Partial<Record<ProfileFieldKey, string>> = {};
+      result.error.issues.forEach((issue) => {
+        const key = issue.path[0] as ProfileFieldKey;
+        fieldErrors[key] ??= issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
 
-    try {
-      await updateProfile(profile);
-      onClose?.();
-    } catch (error) {
-      console.error("Failed to update profile:", error);
+    const content = mergeProfile(profile.content, result.data);
+    const changes = diffProfile(profile.content, content);
+    if (changes.length === 0) {
+      toast({
+        title: "変更はありません",
+        description: "プロフィールは編集されていません",
+      });
+      return;
     }
+    setPending({ content, changes });
+  };
+
+  const handlePublish = () => {
+    if (!pending || !profile) return;
+    updateProfile(
+      { content: pending.content, tags: profile.tags },
+      { onSuccess: () => onClose?.() },
+    );
+    setPending(null);
   };
 
+  const unknownFields = profile ? getUnknownProfileFields(profile.content) : [];
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>プロフィール編集</CardTitle>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name">名前</Label>
-            <Input
-              id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="あなたの名前"
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="about">自己紹介</Label>
-            <Textarea
-              id="about"
-              value={about}
-              onChange={(e) => setAbout(e.target.value)}
-              placeholder="あなたについて"
-              className="min-h-[100px]"
-            />
+        {loadFailed ? (
+          <div className="space-y-4">
+            <Alert variant="destructive">
+              <AlertDescription>
+                現在のプロフィールを読み込めませんでした。既存の項目を上書きしないよう、読み込めるまで保存できません。
+              </AlertDescription>
+            </Alert>
+            <div className="flex justify-end space-x-2">
+              {onClose && (
+                <Button type="button" variant="outline" onClick={onClose}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="button" onClick={loadProfile}>
+                再読み込み
+              </Button>
+            </div>
           </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="picture">プロフィール画像URL</Label>
-            <Input
-              id="picture"
-              value={picture}
-              onChange={(e) => setPicture(e.target.value)}
-              placeholder="https://example.com/avatar.jpg"
-              type="url"
-            />
+        ) : !profile ? (
+          <div className="space-y-4">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-10" />
+            ))}
           </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {PROFILE_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={field.key}>{field.label}</Label>
+                {"multiline" in field ? (
+                  <Textarea
+                    id={field.key}
+                    value={values[field.key]}
+                    onChange={(e) => handleChange(field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                    className="min-h-[100px]"
+                  />
+                ) : (
+                  <Input
+                    id={field.key}
+                    value={values[field.key]}
+                    onChange={(e) => handleChange(field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                  />
+                )}
+                {errors[field.key] && (
+                  <p className="text-sm text-destructive">{errors[field.key]}</p>
+                )}
+              </div>
+            ))}
 
-          <div className="flex justify-end space-x-2">
-            {onClose && (
-              <Button type="button" variant="outline" onClick={onClose}>
-                キャンセル
-              </Button>
+            {unknownFields.length > 0 && (
+              <div className="space-y-2 rounded-md border p-3">
+                <p className="text-sm font-medium">その他の項目</p>
+                <p className="text-xs text-muted-foreground">
+                  他のクライアントで設定された項目です。変更せずにそのまま保持されます。
+                </p>
+                {unknownFields.map(([key, value]) => (
+                  <div key={key} className="flex flex-col">
+                    <span className="text-sm">{key}</span>
+                    <span className="text-sm text-muted-foreground break-all">
+                      {formatValue(value)}
+                    </span>
+                  </div>
+                ))}
+              </div>
             )}
-            <Button type="submit" disabled={isUpdatingProfile}>
-              {isUpdatingProfile && (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+
+            <div className="flex justify-end space-x-2">
+              {onClose && (
+                <Button type="button" variant="outline" onClick={onClose}>
+                  キャンセル
+                </Button>
               )}
-              保存
-            </Button>
-          </div>
-        </form>
+              <Button type="submit" disabled={isUpdatingProfile}>
+                {isUpdatingProfile && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                保存
+              </Button>
+            </div>
+          </form>
+        )}
       </CardContent>
+
+      <AlertDialog open={!!pending} onOpenChange={(value) => !value && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>プロフィールを更新しますか？</AlertDialogTitle>
+            <AlertDialogDescription>以下の項目が変更されます。</AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="max-h-80 space-y-3 overflow-y-auto">
+            {pending?.changes.map((change) => (
+              <div key={change.key} className="rounded-md border p-3 text-sm">
+                <p className="font-medium">{change.key}</p>
+                <p className="text-muted-foreground line-through break-all">
+                  {formatValue(change.before)}
+                </p>
+                <p className="break-all">{formatValue(change.after)}</p>
+              </div>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePublish}>公開</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Loader2, SearchIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { encodeNprofile, encodeNpub, resolveProfilePointer } from "@/lib/nip19";
+import { parseNip05, resolveNip05 } from "@/lib/nip05";
+
+// npub・nprofile・hex・NIP-05識別子（name@domain）からプロフィールを開く
+export default function ProfileSearch() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [isResolving, setIsResolving] = useState(false);
+
+  const value = query.trim();
+  const isValid = !!value && (!!resolveProfilePointer(value) || !!parseNip05(value));
+
+  const openProfile = (profile: string) => {
+    setOpen(false);
+    setQuery("");
+    setLocation(`/profile/${profile}`);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const pointer = resolveProfilePointer(value);
+    if (pointer) {
+      openProfile(value.startsWith("nprofile") ? value : encodeNpub(pointer.pubkey));
+      return;
+    }
+
+    setIsResolving(true);
+    try {
+      const resolved = await resolveNip05(value);
+      if (!resolved) {
+        toast({
+          title: "エラー",
+          description: "ユーザーが見つかりませんでした",
+          variant: "destructive",
+        });
+        return;
+      }
+      // nostr.jsonにリレーが含まれていればヒントとして引き継ぐ
+      openProfile(
+        resolved.relays.length > 0
+          ? encodeNprofile(resolved.pubkey, resolved.relays)
+          : encodeNpub(resolved.pubkey),
+      );
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="icon" className="shrink-0" onClick={() => setOpen(true)}>
+        <SearchIcon className="h-5 w-5" />
+        <span className="sr-only">ユーザーを検索</span>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>ユーザーを検索</DialogTitle>
+            <DialogDescription>
+              npub・nprofile、またはNIP-05識別子（name@example.com）を入力してください
+            </DialogDescription>
+          </DialogHeader>
+          <form className="flex gap-2" onSubmit={handleSubmit}>
+            <Input
+              placeholder="name@example.com"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              autoFocus
+            />
+            <Button type="submit" disabled={!isValid || isResolving}>
+              {isResolving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              開く
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
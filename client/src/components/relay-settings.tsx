@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Loader2, Plus, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Relay, relaySchema } from "@shared/schema";
+import { DEFAULT_RELAYS } from "@/lib/relays";
 
 interface RelaySettingsProps {
   relays?: Relay[];
@@ -14,11 +15,6 @@ interface RelaySettingsProps {
   isSaving?: boolean;
 }
 
-const DEFAULT_RELAYS: Relay[] = [
-  { url: "wss://r.kojira.io", read: true, write: true },
-  { url: "wss://x.kojira.io", read: true, write: true }
-];
-
 export default function RelaySettings({ 
   relays = DEFAULT_RELAYS,
   onSave,
@@ -28,6 +24,11 @@ export default function RelaySettings({
   const [newRelayUrl, setNewRelayUrl] = useState("");
   const { toast } = useToast();
 
+  // 外部で設定が読み込まれた場合に編集中のリストを同期する
+  useEffect(() => {
+    setLocalRelays(relays);
+  }, [relays]);
+
   const addRelay = () => {
     try {
       const validatedUrl = relaySchema.parse({
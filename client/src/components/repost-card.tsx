@@ -0,0 +1,73 @@
+import { Repeat2 } from "lucide-react";
+import { Post } from "@shared/schema";
+import { useNostr, useUserMetadata } from "@/hooks/use-nostr";
+import { Skeleton } from "@/components/ui/skeleton";
+import { memo, useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import PostCard from "./post-card";
+import { encodeNpub, shortNpub } from "@/lib/nip19";
+
+interface RepostCardProps {
+  repost: Post;
+  // タイムラインに既に存在する元投稿（なければIDで取得する）
+  original?: Post;
+}
+
+function RepostCard({ repost, original }: RepostCardProps) {
+  const { loadPostMetadata, fetchRepostedPost } = useNostr();
+  const [fetchedPost, setFetchedPost] = useState<Post | null>(null);
+  const [isLoading, setIsLoading] = useState(!original);
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    loadPostMetadata(repost.pubkey);
+  }, [repost.pubkey, loadPostMetadata]);
+
+  useEffect(() => {
+    if (original) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchRepostedPost(repost)
+      .then((post) => {
+        if (!cancelled) setFetchedPost(post);
+      })
+      .catch((error) => console.error("[Repost] Failed to load reposted note:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [original, repost, fetchRepostedPost]);
+
+  const metadata = useUserMetadata(repost.pubkey);
+  const reposted = original ?? fetchedPost;
+
+  return (
+    <div className="space-y-2">
+      <p className="flex items-center gap-2 text-sm text-muted-foreground px-2">
+        <Repeat2 className="h-4 w-4" />
+        <span
+          className="font-medium cursor-pointer hover:underline"
+          onClick={() => setLocation(`/profile/${encodeNpub(repost.pubkey)}`)}
+        >
+          {metadata?.name || shortNpub(repost.pubkey)}
+        </span>
+        がリポスト
+      </p>
+      {isLoading ? (
+        <Skeleton className="h-32" />
+      ) : reposted ? (
+        <PostCard post={reposted} />
+      ) : (
+        <p className="text-center text-sm text-muted-foreground border rounded-md py-4">
+          元の投稿が見つかりません
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default memo(RepostCard);
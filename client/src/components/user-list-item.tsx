@@ -0,0 +1,79 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useInView } from "react-intersection-observer";
+import { useUserMetadata } from "@/hooks/use-nostr";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { encodeNpub, shortNpub } from "@/lib/nip19";
+
+interface UserListItemProps {
+  pubkey: string;
+  loadMetadata: (pubkey: string) => void;
+  // 未指定の場合はフォローボタンを表示しない（自分自身・未ログイン時）
+  isFollowing?: boolean;
+  onToggleFollow?: (pubkey: string) => void;
+  isTogglingFollow?: boolean;
+  onSelect?: () => void;
+}
+
+// アバター・名前・フォローボタンを並べた1行（表示されたときにメタデータを読み込む）
+export default function UserListItem({
+  pubkey,
+  loadMetadata,
+  isFollowing,
+  onToggleFollow,
+  isTogglingFollow,
+  onSelect,
+}: UserListItemProps) {
+  const metadata = useUserMetadata(pubkey);
+  const [, setLocation] = useLocation();
+  const { ref, inView } = useInView({
+    threshold: 0,
+    triggerOnce: true,
+  });
+
+  useEffect(() => {
+    if (inView) {
+      loadMetadata(pubkey);
+    }
+  }, [inView, pubkey, loadMetadata]);
+
+  const npub = encodeNpub(pubkey);
+
+  return (
+    <div ref={ref} className="flex items-center gap-3 py-2">
+      <button
+        type="button"
+        className="flex min-w-0 flex-grow items-center gap-3 text-left"
+        onClick={() => {
+          onSelect?.();
+          setLocation(`/profile/${npub}`);
+        }}
+      >
+        <Avatar className="h-10 w-10">
+          {metadata?.picture ? (
+            <AvatarImage src={metadata.picture} alt={metadata.name} />
+          ) : (
+            <AvatarFallback>
+              {(metadata?.name?.[0] || pubkey.slice(0, 2)).toUpperCase()}
+            </AvatarFallback>
+          )}
+        </Avatar>
+        <div className="min-w-0">
+          <p className="truncate font-semibold">{metadata?.name || shortNpub(pubkey)}</p>
+          <p className="truncate text-sm text-muted-foreground">{shortNpub(pubkey)}</p>
+        </div>
+      </button>
+      {onToggleFollow && (
+        <Button
+          size="sm"
+          variant={isFollowing ? "outline" : "default"}
+          disabled={isTogglingFollow}
+          onClick={() => onToggleFollow(pubkey)}
+        >
+          {isFollowing ? "フォロー解除" : "フォロー"}
+        </Button>
+      )}
+    </div>
+  );
+}
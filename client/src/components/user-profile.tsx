@@ -5,27 +5,33 @@ import { useAuth } from "@/hooks/use-auth";
 import { useState } from "react";
 import ProfileEditor from "./profile-editor";
 import { Edit } from "lucide-react";
-import { useNostr } from "@/hooks/use-nostr";
+import { useNostr, useUserMetadata } from "@/hooks/use-nostr";
 import RelaySettings from "./relay-settings";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Relay } from "@shared/schema";
+import CopyButton from "./copy-button";
+import ContactListHistory from "./contact-list-history";
+import KeySecuritySettings from "./key-security-settings";
+import { encodeNpub, shortNpub } from "@/lib/nip19";
 
 export default function UserProfile() {
   const { user } = useAuth();
-  const { getUserMetadata } = useNostr();
+  const { relays, updateRelays, publishRelayList } = useNostr();
+  const metadata = useUserMetadata(user?.publicKey);
   const [isEditing, setIsEditing] = useState(false);
   const [isSavingRelays, setIsSavingRelays] = useState(false);
 
   if (!user) return null;
 
-  const metadata = getUserMetadata(user.publicKey);
   const shortPubkey = user.publicKey.slice(0, 8);
+  const npub = encodeNpub(user.publicKey);
 
-  const handleSaveRelays = async (relays: any) => { //Type needs fixing here.  Should be based on User.relays
+  const handleSaveRelays = async (newRelays: Relay[]) => {
     setIsSavingRelays(true);
     try {
-      await apiRequest("POST", "/api/relays", { relays });
-      // Invalidate user query to refresh the data
-      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      // ローカルに保存し、接続中のリレーへ即時反映する
+      await updateRelays(newRelays);
+      // NIP-65: 他のクライアントからも参照できるよう公開する
+      await publishRelayList(newRelays);
     } finally {
       setIsSavingRelays(false);
     }
@@ -61,19 +67,22 @@ export default function UserProfile() {
           <div className="flex-1">
             <div className="flex items-center justify-between">
               <h2 className="text-xl font-bold">
-                {metadata?.name || `nostr:${shortPubkey}`}
+                {metadata?.name || shortNpub(user.publicKey)}
               </h2>
             </div>
-            <p className="text-sm text-muted-foreground truncate">
-              {user.publicKey}
-            </p>
+            <div className="flex items-center gap-1">
+              <p className="text-sm text-muted-foreground truncate">
+                {npub}
+              </p>
+              <CopyButton value={npub} label="公開鍵をコピー" />
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
           {metadata?.about && (
             <p className="text-sm text-muted-foreground">{metadata.about}</p>
           )}
-          {user.type === "generated" && (
+          {user.type !== "extension" && (
             <Button
               variant="outline"
               className="w-full"
@@ -88,10 +97,12 @@ export default function UserProfile() {
               NIP-07拡張機能を使用中のため、プロフィール編集は拡張機能から行ってください。
             </p>
           )}
+          <ContactListHistory />
         </CardContent>
       </Card>
+      <KeySecuritySettings />
       <RelaySettings
-        relays={user.relays || []}
+        relays={relays}
         onSave={handleSaveRelays}
         isSaving={isSavingRelays}
       />
@@ -0,0 +1,199 @@
+import {
+  ReactNode,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+// ウィンドウスクロールに追従する可変高さの仮想リスト
+// 表示範囲の前後だけを描画し、全体の高さは計測済み・推定の高さの合計で確保する
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  // 未計測のアイテムの推定高さ（px）
+  estimateHeight?: number;
+  // 表示範囲の外側に余分に描画する高さ（px）
+  overscan?: number;
+  // 描画範囲が変わったときに通知する（endは含まない）
+  onRangeChange?: (start: number, end: number) => void;
+}
+
+// offsets[i] <= position となる最大のiを二分探索で求める
+function findIndex(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+}
+
+export default function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight = 200,
+  overscan = 800,
+  onRangeChange,
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+  // スクロール位置の基準となるアイテムと、その表示位置からのずれ
+  const anchor = useRef<{ key: string; delta: number } | null>(null);
+
+  const keys = useMemo(() => items.map(getKey), [items, getKey]);
+
+  const { offsets, indexByKey } = useMemo(() => {
+    const offsets = new Array<number>(keys.length + 1);
+    const indexByKey = new Map<string, number>();
+    offsets[0] = 0;
+    keys.forEach((key, i) => {
+      indexByKey.set(key, i);
+      offsets[i + 1] = offsets[i] + (heights.current.get(key) ?? estimateHeight);
+    });
+    return { offsets, indexByKey };
+    // measureVersionは計測結果（heights）の更新を反映するための依存
+  }, [keys, estimateHeight, measureVersion]);
+
+  const totalHeight = offsets[keys.length];
+
+  // コンテナ上端からのスクロール位置を読み取る
+  const readViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewport({
+      top: -container.getBoundingClientRect().top,
+      height: window.innerHeight,
+    });
+  }, []);
+
+  useEffect(() => {
+    let frame: number | null = null;
+    const handleScroll = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        readViewport();
+      });
+    };
+    readViewport();
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    window.addEventListener("resize", handleScroll);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("resize", handleScroll);
+    };
+  }, [readViewport]);
+
+  // 描画中のアイテムの高さを計測する
+  const pendingMeasure = useRef<number | null>(null);
+  const resizeObserver: ResizeObserver = useMemo(
+    () =>
+      new ResizeObserver((entries) => {
+        let changed = false;
+        entries.forEach((entry) => {
+          const target = entry.target as HTMLElement;
+          // 描画範囲から外れて取り外された要素は監視をやめる
+          if (!target.isConnected) {
+            resizeObserver.unobserve(target);
+            return;
+          }
+          const key = target.dataset.key;
+          if (!key) return;
+          const height = target.offsetHeight;
+          if (heights.current.get(key) !== height) {
+            heights.current.set(key, height);
+            changed = true;
+          }
+        });
+        if (changed && pendingMeasure.current === null) {
+          pendingMeasure.current = requestAnimationFrame(() => {
+            pendingMeasure.current = null;
+            setMeasureVersion((version) => version + 1);
+          });
+        }
+      }),
+    [],
+  );
+
+  useEffect(
+    () => () => {
+      resizeObserver.disconnect();
+      if (pendingMeasure.current !== null) cancelAnimationFrame(pendingMeasure.current);
+    },
+    [resizeObserver],
+  );
+
+  const measureRef = useCallback(
+    (element: HTMLDivElement | null) => {
+      if (element) resizeObserver.observe(element);
+    },
+    [resizeObserver],
+  );
+
+  const start = keys.length > 0 ? findIndex(offsets, viewport.top - overscan) : 0;
+  const end =
+    keys.length > 0
+      ? Math.min(keys.length, findIndex(offsets, viewport.top + viewport.height + overscan) + 1)
+      : 0;
+
+  // 上側のアイテムが追加・計測されても、表示中のアイテムが動かないようスクロール位置を補正する
+  const lastOffsets = useRef(offsets);
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = -container.getBoundingClientRect().top;
+    const layoutChanged = lastOffsets.current !== offsets;
+    lastOffsets.current = offsets;
+
+    const current = anchor.current;
+    if (layoutChanged && current && top > 0) {
+      const index = indexByKey.get(current.key);
+      if (index !== undefined) {
+        const diff = offsets[index] - current.delta - top;
+        if (Math.abs(diff) >= 1) {
+          window.scrollBy(0, diff);
+          readViewport();
+          return;
+        }
+      }
+    }
+
+    // 表示範囲の先頭にあるアイテムを次回の基準にする
+    const firstVisible = keys.length > 0 ? findIndex(offsets, Math.max(0, top)) : -1;
+    anchor.current =
+      firstVisible >= 0 ? { key: keys[firstVisible], delta: offsets[firstVisible] - top } : null;
+  }, [offsets, indexByKey, keys, viewport.top, readViewport]);
+
+  useEffect(() => {
+    onRangeChange?.(start, end);
+  }, [start, end, onRangeChange]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ height: totalHeight, position: "relative", overflowAnchor: "none" }}
+    >
+      <div style={{ transform: `translateY(${offsets[start] ?? 0}px)` }}>
+        {items.slice(start, end).map((item, i) => (
+          <div key={keys[start + i]} data-key={keys[start + i]} ref={measureRef}>
+            {renderItem(item, start + i)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
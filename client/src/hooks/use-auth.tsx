@@ -1,7 +1,23 @@
 import { createContext, ReactNode, useContext, useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import * as secp from '@noble/secp256k1';
-import { getPublicKey } from 'nostr-tools';
+import { generateSecretKey, getPublicKey } from 'nostr-tools';
+import { apiRequest } from "@/lib/queryClient";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  NIP46_AUTH_TIMEOUT,
+  closeNip46Client,
+  connectBunker,
+  onNip46AuthUrl,
+  type Nip46Session,
+} from "@/lib/nip46";
+import {
+  decryptNcryptsec,
+  encryptPrivateKey,
+  loadAutoLockMinutes,
+  saveAutoLockMinutes,
+  waitForPaint,
+} from "@/lib/nip49";
 
 // Define types for Nostr window object
 declare global {
@@ -9,14 +25,28 @@ declare global {
     nostr?: {
       getPublicKey(): Promise<string>;
       signEvent(event: any): Promise<any>;
+      // NIP-07: 暗号化APIは拡張機能によっては未実装
+      nip04?: {
+        encrypt(pubkey: string, plaintext: string): Promise<string>;
+        decrypt(pubkey: string, ciphertext: string): Promise<string>;
+      };
+      nip44?: {
+        encrypt(pubkey: string, plaintext: string): Promise<string>;
+        decrypt(pubkey: string, ciphertext: string): Promise<string>;
+      };
     };
   }
 }
 
-type NostrUser = {
-  type: "extension" | "generated";
+export type NostrUser = {
+  // server: ユーザー名・パスワードでログインし、サーバーに保管した鍵で署名する
+  // nip46: リモートサイナー（bunker）に署名を依頼する
+  type: "extension" | "generated" | "server" | "nip46";
   publicKey: string;
-  privateKey?: string; // Only present for generated keys
+  privateKey?: string; // Only present for unlocked generated keys (never persisted)
+  ncryptsec?: string; // NIP-49 encrypted private key for generated keys
+  username?: string; // Only present for server accounts
+  nip46?: Nip46Session; // Only present for remote signers
 };
 
 type AuthContextType = {
@@ -24,25 +54,52 @@ type AuthContextType = {
   isLoading: boolean;
   error: Error | null;
   loginWithExtension: () => Promise<void>;
-  generateNewKeys: () => Promise<void>;
+  // 生成した鍵がロック中（ncryptsecのみ保持し、秘密鍵を復号していない）
+  isLocked: boolean;
+  // 以前のバージョンで平文のまま保存された鍵（パスフレーズの設定が必要）
+  needsPassphrase: boolean;
+  autoLockMinutes: number;
+  generateNewKeys: (passphrase: string) => Promise<void>;
+  loginWithNcryptsec: (ncryptsec: string, passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => void;
+  setPassphrase: (passphrase: string) => Promise<void>;
+  setAutoLockMinutes: (minutes: number) => void;
+  loginWithPassword: (username: string, password: string) => Promise<void>;
+  registerWithPassword: (username: string, password: string) => Promise<void>;
+  loginWithBunker: (input: string) => Promise<void>;
+  loginWithNip46Session: (session: Nip46Session, publicKey: string) => void;
   logout: () => void;
 };
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 
+// 秘密鍵はメモリ上にのみ保持し、localStorageには書き込まない
+function persistUser(user: NostrUser) {
+  const { privateKey, ...stored } = user;
+  if (privateKey && !stored.ncryptsec) {
+    throw new Error("Private keys must be encrypted before they are stored");
+  }
+  localStorage.setItem("nostr_auth", JSON.stringify(stored));
+}
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const [user, setUser] = useState<NostrUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(loadAutoLockMinutes);
 
   // Initialize from localStorage
   useEffect(() => {
     const storedAuth = localStorage.getItem("nostr_auth");
     if (storedAuth) {
       try {
-        const parsed = JSON.parse(storedAuth);
-        setUser(parsed);
+        const parsed = JSON.parse(storedAuth) as NostrUser;
+        // ncryptsecがある場合、古い平文の鍵が残っていても使わずロック状態で開始する
+        setUser(parsed.ncryptsec ? { ...parsed, privateKey: undefined } : parsed);
       } catch (e) {
         console.error("Failed to parse stored auth:", e);
       }
@@ -50,6 +107,60 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsLoading(false);
   }, []);
 
+  // NIP-46: リモートサイナーから認可を求められたら、承認ページへのリンクを表示する
+  useEffect(
+    () =>
+      onNip46AuthUrl((url) => {
+        toast({
+          title: "Authorization Required",
+          description: `Your remote signer asks you to approve this request at ${new URL(url).host}.`,
+          duration: NIP46_AUTH_TIMEOUT,
+          action: (
+            <ToastAction altText="Open approval page" asChild>
+              <a href={url} target="_blank" rel="noopener noreferrer">
+                Open
+              </a>
+            </ToastAction>
+          ),
+        });
+      }),
+    [toast],
+  );
+
+  const isLocked = user?.type === "generated" && !!user.ncryptsec && !user.privateKey;
+  const needsPassphrase = user?.type === "generated" && !user.ncryptsec;
+
+  const lock = () => {
+    setUser((current) =>
+      current?.type === "generated" && current.ncryptsec
+        ? { ...current, privateKey: undefined }
+        : current,
+    );
+  };
+
+  // 一定時間操作がなければ秘密鍵をメモリから破棄する
+  const isUnlocked = user?.type === "generated" && !!user.ncryptsec && !!user.privateKey;
+  useEffect(() => {
+    if (!isUnlocked || autoLockMinutes === 0) return;
+
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const resetTimer = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(lock, autoLockMinutes * 60 * 1000);
+    };
+    resetTimer();
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timeoutId);
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, resetTimer));
+    };
+  }, [isUnlocked, autoLockMinutes]);
+
+  const setAutoLockMinutes = (minutes: number) => {
+    saveAutoLockMinutes(minutes);
+    setAutoLockMinutesState(minutes);
+  };
+
   const loginWithExtension = async () => {
     try {
       setIsLoading(true);
@@ -64,7 +175,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       };
 
       setUser(user);
-      localStorage.setItem("nostr_auth", JSON.stringify(user));
+      persistUser(user);
 
       toast({
         title: "Login Successful",
@@ -83,32 +194,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const generateNewKeys = async () => {
+  const generateNewKeys = async (passphrase: string) => {
     try {
       setIsLoading(true);
       setError(null);
+      await waitForPaint();
 
-      // Generate a random private key using the Web Crypto API
-      const privateKeyBytes = new Uint8Array(32);
-      crypto.getRandomValues(privateKeyBytes);
-
-      // Convert to hex string
-      const privateKey = Array.from(privateKeyBytes)
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-
-      console.log("Generating new keys..."); // デバッグログ
-      const publicKey = getPublicKey(privateKey);
-      console.log("Public key generated:", publicKey); // デバッグログ
+      const secretKey = generateSecretKey();
+      const privateKey = secp.etc.bytesToHex(secretKey);
+      const publicKey = getPublicKey(secretKey);
 
       const user: NostrUser = {
         type: "generated",
         publicKey,
-        privateKey
+        privateKey,
+        ncryptsec: encryptPrivateKey(privateKey, passphrase),
       };
 
       setUser(user);
-      localStorage.setItem("nostr_auth", JSON.stringify(user));
+      persistUser(user);
 
       toast({
         title: "キー生成完了",
@@ -128,7 +232,153 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // NIP-49: エクスポートしたncryptsecとパスフレーズでログインする
+  const loginWithNcryptsec = async (ncryptsec: string, passphrase: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await waitForPaint();
+
+      const privateKey = decryptNcryptsec(ncryptsec, passphrase);
+      const user: NostrUser = {
+        type: "generated",
+        publicKey: getPublicKey(secp.etc.hexToBytes(privateKey)),
+        privateKey,
+        ncryptsec: ncryptsec.trim(),
+      };
+
+      setUser(user);
+      persistUser(user);
+
+      toast({
+        title: "Login Successful",
+        description: "Imported encrypted private key",
+      });
+    } catch (e) {
+      const error = e as Error;
+      setError(error);
+      toast({
+        title: "Login Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ロック中の鍵をパスフレーズで復号する
+  // ProtectedRouteの表示を切り替えないよう、isLoadingは使わず呼び出し側でエラーと処理中の表示を行う
+  const unlock = async (passphrase: string) => {
+    if (!user?.ncryptsec) return;
+    await waitForPaint();
+    const privateKey = decryptNcryptsec(user.ncryptsec, passphrase);
+    if (getPublicKey(secp.etc.hexToBytes(privateKey)) !== user.publicKey) {
+      throw new Error("The stored key does not match this account");
+    }
+    setUser({ ...user, privateKey });
+  };
+
+  // パスフレーズを設定・変更する（平文で保存されていた鍵もここで暗号化される）
+  const setPassphrase = async (passphrase: string) => {
+    if (user?.type !== "generated" || !user.privateKey) {
+      throw new Error("Unlock the key before changing the passphrase");
+    }
+    await waitForPaint();
+    const updated: NostrUser = {
+      ...user,
+      ncryptsec: encryptPrivateKey(user.privateKey, passphrase),
+    };
+    setUser(updated);
+    persistUser(updated);
+  };
+
+  // サーバーのアカウントでログイン・登録する（秘密鍵はサーバーから返されない）
+  const authenticateWithServer = async (
+    endpoint: "/api/login" | "/api/register",
+    username: string,
+    password: string,
+  ) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const res = await apiRequest("POST", endpoint, { username, password });
+      const account = (await res.json()) as { username: string; publicKey: string };
+      const user: NostrUser = {
+        type: "server",
+        publicKey: account.publicKey,
+        username: account.username,
+      };
+
+      setUser(user);
+      persistUser(user);
+
+      toast({
+        title: "Login Successful",
+        description: `Signed in as ${account.username}`,
+      });
+    } catch (e) {
+      const error = e as Error;
+      setError(error);
+      toast({
+        title: "Login Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loginWithPassword = (username: string, password: string) =>
+    authenticateWithServer("/api/login", username, password);
+
+  const registerWithPassword = (username: string, password: string) =>
+    authenticateWithServer("/api/register", username, password);
+
+  // NIP-46: 接続済みのリモートサイナーでログインする（nostrconnect://で接続した場合）
+  const loginWithNip46Session = (session: Nip46Session, publicKey: string) => {
+    const user: NostrUser = { type: "nip46", publicKey, nip46: session };
+    setUser(user);
+    persistUser(user);
+
+    toast({
+      title: "Login Successful",
+      description: "Connected with remote signer",
+    });
+  };
+
+  // NIP-46: bunker://のURIでリモートサイナーに接続する
+  const loginWithBunker = async (input: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const { session, pubkey } = await connectBunker(input);
+      loginWithNip46Session(session, pubkey);
+    } catch (e) {
+      const error = e as Error;
+      setError(error);
+      toast({
+        title: "Login Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const logout = () => {
+    if (user?.nip46) {
+      closeNip46Client(user.nip46);
+    }
+    // サーバーのセッションも破棄する
+    if (user?.type === "server") {
+      apiRequest("POST", "/api/logout").catch((error) => {
+        console.error("Failed to log out from server:", error);
+      });
+    }
     setUser(null);
     localStorage.removeItem("nostr_auth");
     toast({
@@ -143,8 +393,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user,
         isLoading,
         error,
+        isLocked,
+        needsPassphrase,
+        autoLockMinutes,
         loginWithExtension,
         generateNewKeys,
+        loginWithNcryptsec,
+        unlock,
+        lock,
+        setPassphrase,
+        setAutoLockMinutes,
+        loginWithPassword,
+        registerWithPassword,
+        loginWithBunker,
+        loginWithNip46Session,
         logout,
       }}
     >
@@ -0,0 +1,219 @@
+import { useMutation } from "@tanstack/react-query";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { NostrEvent as SignedEvent } from "nostr-tools";
+import { useAuth } from "./use-auth";
+import { useNostr, type NostrEvent } from "./use-nostr";
+import { useToast } from "./use-toast";
+import { createDmCrypto } from "@/lib/dm-crypto";
+import { createGiftWrap, createRumor, DM_KIND, unwrapGiftWrap } from "@/lib/nip17";
+import { getReadRelayUrls } from "@/lib/relays";
+
+const DM_RELAY_LIST_TIMEOUT = 5000;
+
+export interface DirectMessage {
+  id: string;
+  // 会話相手の公開鍵（自分宛てのメモの場合は自分）
+  partner: string;
+  sender: string;
+  content: string;
+  createdAt: number;
+  protocol: "nip17" | "nip04";
+}
+
+export interface Conversation {
+  partner: string;
+  lastMessage: DirectMessage;
+  messageCount: number;
+}
+
+// 一対一の会話相手を求める。グループチャット（相手が複数）はnullを返す
+function getPartner(sender: string, tags: string[][], self: string): string | null {
+  const participants = new Set(
+    tags.filter((tag) => tag[0] === "p" && tag[1]).map((tag) => tag[1]),
+  );
+  participants.add(sender);
+  participants.delete(self);
+  if (participants.size > 1) return null;
+  return participants.size === 1 ? Array.from(participants)[0] : self;
+}
+
+export function useDirectMessages() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const {
+    isLoadingPosts: isClientLoading,
+    fetchEvents,
+    subscribeEvents,
+    getAuthorRelays,
+    signEvent,
+    sendSignedEvent,
+  } = useNostr();
+  const [messages, setMessages] = useState<Map<string, DirectMessage>>(new Map());
+  const processedEvents = useRef(new Set<string>());
+
+  const crypto = useMemo(() => (user ? createDmCrypto(user) : null), [user]);
+
+  const addMessage = useCallback((message: DirectMessage) => {
+    setMessages((prev) => {
+      if (prev.has(message.id)) return prev;
+      const updated = new Map(prev);
+      updated.set(message.id, message);
+      return updated;
+    });
+  }, []);
+
+  // 受信したkind 1059/4イベントを復号してメッセージに変換
+  const handleEvent = useCallback(
+    async (event: NostrEvent) => {
+      if (!user || !crypto || !event.id || !event.pubkey) return;
+      // 同じイベントが複数のリレーから届くため一度だけ処理する
+      if (processedEvents.current.has(event.id)) return;
+      processedEvents.current.add(event.id);
+
+      try {
+        if (event.kind === DM_KIND.GIFT_WRAP) {
+          const rumor = await unwrapGiftWrap(event as SignedEvent, crypto);
+          if (rumor.kind !== DM_KIND.CHAT_MESSAGE) return;
+          const partner = getPartner(rumor.pubkey, rumor.tags, user.publicKey);
+          if (!partner) return;
+          addMessage({
+            id: rumor.id,
+            partner,
+            sender: rumor.pubkey,
+            content: rumor.content,
+            createdAt: rumor.created_at,
+            protocol: "nip17",
+          });
+        } else if (event.kind === DM_KIND.LEGACY_DM) {
+          const partner = getPartner(event.pubkey, event.tags, user.publicKey);
+          if (!partner) return;
+          addMessage({
+            id: event.id,
+            partner,
+            sender: event.pubkey,
+            content: await crypto.nip04Decrypt(partner, event.content),
+            createdAt: event.created_at,
+            protocol: "nip04",
+          });
+        }
+      } catch (error) {
+        console.warn(`[DM] Failed to decrypt event ${event.id}:`, error);
+      }
+    },
+    [user, crypto, addMessage],
+  );
+
+  // 自分宛てのgift wrapと、送受信したNIP-04メッセージを購読
+  useEffect(() => {
+    if (!user || !crypto || isClientLoading) return;
+
+    setMessages(new Map());
+    processedEvents.current = new Set();
+
+    // gift wrapのcreated_atはランダム化されているためsinceは指定しない
+    return subscribeEvents(
+      [
+        { kinds: [DM_KIND.GIFT_WRAP], "#p": [user.publicKey] },
+        { kinds: [DM_KIND.LEGACY_DM], "#p": [user.publicKey] },
+        { kinds: [DM_KIND.LEGACY_DM], authors: [user.publicKey] },
+      ],
+      handleEvent,
+    );
+  }, [user, crypto, isClientLoading, subscribeEvents, handleEvent]);
+
+  // NIP-17: 受信者のDMリレー（kind 10050）、なければNIP-65の読み取りリレーを使う
+  const getInboxRelays = useCallback(
+    async (pubkey: string): Promise<string[]> => {
+      const events = await fetchEvents(
+        { kinds: [DM_KIND.DM_RELAY_LIST], authors: [pubkey] },
+        DM_RELAY_LIST_TIMEOUT,
+      ).catch(() => []);
+      const latest = events.sort((a, b) => b.created_at - a.created_at)[0];
+      const dmRelays = latest
+        ? latest.tags.filter((tag) => tag[0] === "relay" && tag[1]).map((tag) => tag[1])
+        : [];
+      if (dmRelays.length > 0) return dmRelays;
+      return getReadRelayUrls(await getAuthorRelays(pubkey));
+    },
+    [fetchEvents, getAuthorRelays],
+  );
+
+  const sendMessageMutation = useMutation({
+    mutationFn: async ({ recipient, content }: { recipient: string; content: string }) => {
+      if (!user || !crypto) {
+        throw new Error("Direct messages are not available for this login");
+      }
+
+      const rumor = createRumor(user.publicKey, recipient, content);
+      const sign = (params: Parameters<typeof signEvent>[0]) =>
+        signEvent(params) as Promise<SignedEvent>;
+
+      // 受信者用と、自分の送信履歴用にそれぞれgift wrapを作成する
+      const recipientWrap = await createGiftWrap(rumor, recipient, sign, crypto);
+      const selfWrap =
+        recipient === user.publicKey
+          ? null
+          : await createGiftWrap(rumor, user.publicKey, sign, crypto);
+
+      const inboxRelays = await getInboxRelays(recipient);
+      await Promise.all([
+        sendSignedEvent(recipientWrap, inboxRelays),
+        selfWrap && sendSignedEvent(selfWrap),
+      ]);
+
+      processedEvents.current.add(recipientWrap.id);
+      if (selfWrap) processedEvents.current.add(selfWrap.id);
+      addMessage({
+        id: rumor.id,
+        partner: recipient,
+        sender: user.publicKey,
+        content,
+        createdAt: rumor.created_at,
+        protocol: "nip17",
+      });
+    },
+    onError: (error) => {
+      console.error("Error sending direct message:", error);
+      toast({
+        title: "エラー",
+        description: "メッセージの送信に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const conversations = useMemo(() => {
+    const grouped = new Map<string, Conversation>();
+    messages.forEach((message) => {
+      const current = grouped.get(message.partner);
+      if (!current) {
+        grouped.set(message.partner, { partner: message.partner, lastMessage: message, messageCount: 1 });
+        return;
+      }
+      current.messageCount++;
+      if (message.createdAt > current.lastMessage.createdAt) {
+        current.lastMessage = message;
+      }
+    });
+    return Array.from(grouped.values()).sort(
+      (a, b) => b.lastMessage.createdAt - a.lastMessage.createdAt,
+    );
+  }, [messages]);
+
+  const getConversation = useCallback(
+    (partner: string) =>
+      Array.from(messages.values())
+        .filter((message) => message.partner === partner)
+        .sort((a, b) => a.createdAt - b.createdAt),
+    [messages],
+  );
+
+  return {
+    isSupported: crypto !== null,
+    isLoading: isClientLoading,
+    conversations,
+    getConversation,
+    sendMessage: sendMessageMutation.mutateAsync,
+    isSending: sendMessageMutation.isPending,
+  };
+}
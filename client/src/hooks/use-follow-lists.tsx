@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNostrClient, debugLog } from "./use-nostr";
+
+const FOLLOWERS_PAGE_SIZE = 100;
+
+// プロフィールのフォロー・フォロワー一覧と件数
+export function useFollowLists(pubkey: string | undefined, relayHints?: string[]) {
+  const { isReady, fetchFollowingList, fetchFollowers, countFollowers } = useNostrClient();
+  const [following, setFollowing] = useState<string[] | null>(null);
+  const [followers, setFollowers] = useState<string[]>([]);
+  // NIP-45で取得した件数（問い合わせ中はundefined、未対応の場合はnull）
+  const [followerCount, setFollowerCount] = useState<number | null | undefined>(undefined);
+  const [isLoadingFollowers, setIsLoadingFollowers] = useState(false);
+  const [hasMoreFollowers, setHasMoreFollowers] = useState(true);
+  const seenFollowers = useRef<Set<string>>(new Set());
+  const followersUntil = useRef<number | undefined>(undefined);
+  // 取得中のpubkey（別のプロフィールの取得中でも新しいプロフィールの取得は始められる）
+  const fetchingFollowersOf = useRef<string | null>(null);
+  // 別のプロフィールへ移動した後に届いた結果を捨てるために使う
+  const currentPubkey = useRef(pubkey);
+  const relayHintsKey = relayHints?.join(",") ?? "";
+
+  const loadMoreFollowers = useCallback(async () => {
+    if (!pubkey || !isReady || fetchingFollowersOf.current === pubkey) return;
+
+    fetchingFollowersOf.current = pubkey;
+    setIsLoadingFollowers(true);
+    try {
+      const { pubkeys, oldestAt, eventCount } = await fetchFollowers(pubkey, {
+        until: followersUntil.current,
+        limit: FOLLOWERS_PAGE_SIZE,
+      });
+      if (currentPubkey.current !== pubkey) return;
+
+      const added = pubkeys.filter((follower) => !seenFollowers.current.has(follower));
+      added.forEach((follower) => seenFollowers.current.add(follower));
+      setFollowers((current) => [...current, ...added]);
+      if (oldestAt) followersUntil.current = oldestAt - 1;
+      setHasMoreFollowers(eventCount >= FOLLOWERS_PAGE_SIZE && added.length > 0);
+    } catch (error) {
+      debugLog("Error fetching followers:", error);
+      if (currentPubkey.current === pubkey) setHasMoreFollowers(false);
+    } finally {
+      if (fetchingFollowersOf.current === pubkey) {
+        fetchingFollowersOf.current = null;
+        setIsLoadingFollowers(false);
+      }
+    }
+  }, [pubkey, isReady, fetchFollowers]);
+
+  useEffect(() => {
+    currentPubkey.current = pubkey;
+    seenFollowers.current = new Set();
+    followersUntil.current = undefined;
+    setFollowing(null);
+    setFollowers([]);
+    setFollowerCount(undefined);
+    setHasMoreFollowers(true);
+    setIsLoadingFollowers(false);
+    if (!pubkey || !isReady) return;
+
+    let cancelled = false;
+    fetchFollowingList(pubkey, relayHintsKey ? relayHintsKey.split(",") : [])
+      .then((pubkeys) => {
+        if (!cancelled) setFollowing(pubkeys);
+      })
+      .catch((error) => {
+        debugLog("Error fetching following list:", error);
+        if (!cancelled) setFollowing([]);
+      });
+
+    // COUNTに対応したリレーがなければ、一覧の1ページ目から件数を求める
+    countFollowers(pubkey)
+      .then((count) => {
+        if (cancelled) return;
+        setFollowerCount(count);
+        if (count === null) loadMoreFollowers();
+      })
+      .catch((error) => {
+        debugLog("Error counting followers:", error);
+        if (cancelled) return;
+        setFollowerCount(null);
+        loadMoreFollowers();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pubkey, isReady, relayHintsKey, fetchFollowingList, countFollowers, loadMoreFollowers]);
+
+  return {
+    following: following ?? [],
+    isLoadingFollowing: following === null,
+    followers,
+    // COUNTの結果がなければ取得済みの人数（続きがある場合は概算）
+    followerCount: followerCount ?? followers.length,
+    isFollowerCountEstimated: followerCount === null && hasMoreFollowers,
+    isLoadingFollowerCount:
+      followerCount === undefined ||
+      (followerCount === null && followers.length === 0 && hasMoreFollowers),
+    isLoadingFollowers,
+    hasMoreFollowers,
+    loadMoreFollowers,
+  };
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { verifyNip05 } from "@/lib/nip05";
+
+// 識別子が公開鍵を指していればtrue（確認中・未設定はundefined）
+export function useNip05Verification(pubkey: string | undefined, nip05: string | undefined) {
+  const [verified, setVerified] = useState<boolean | undefined>(undefined);
+
+  useEffect(() => {
+    setVerified(undefined);
+    if (!pubkey || !nip05) return;
+
+    let cancelled = false;
+    verifyNip05(nip05, pubkey).then((result) => {
+      if (!cancelled) setVerified(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pubkey, nip05]);
+
+  return verified;
+}
@@ -1,14 +1,60 @@
 import { useMutation } from "@tanstack/react-query";
 import { Post } from "@shared/schema";
 import { useToast } from "./use-toast";
-import { createRxNostr, createRxForwardReq, nip07Signer } from "rx-nostr";
+import { createRxNostr, createRxForwardReq, createRxBackwardReq, nip07Signer } from "rx-nostr";
 import { verifier, seckeySigner } from "rx-nostr-crypto";
-import { useEffect, useRef, useState, useCallback } from "react";
-import type { RxNostr, Event, RelayRequest, VerifiableEvent, RelayResponse } from "rx-nostr";
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { RxNostr, Event, RelayRequest, VerifiableEvent, RelayResponse, EventSigner, LazyFilter, RxNostrUseOptions, ConnectionState } from "rx-nostr";
+import { nip10, verifyEvent } from "nostr-tools";
+import type { NostrEvent as SignedEvent } from "nostr-tools";
 import { useAuth } from "./use-auth";
+import { Relay } from "@shared/schema";
+import {
+  DEFAULT_RELAYS,
+  loadRelays,
+  saveRelays,
+  hasStoredRelays,
+  getReadRelayUrls,
+  getWriteRelayUrls,
+  parseRelayListTags,
+  relayListToTags,
+} from "@/lib/relays";
+import { encodeNevent, shortNpub } from "@/lib/nip19";
+import {
+  getEventsByIds,
+  getEventsByKind,
+  getReplaceableEvent,
+  pruneEvents,
+  queryEvents,
+  storeEvents,
+} from "@/lib/event-store";
+import { chunkArray } from "@/lib/timeline";
+import {
+  addContact,
+  ContactListFetchError,
+  getFollowedPubkeys,
+  removeContact,
+  saveContactListSnapshot,
+  type ContactListEvent,
+  type ContactListSnapshot,
+} from "@/lib/contact-list";
+import { countEvents, supportsCount } from "@/lib/nip45";
+import { serverSigner } from "@/lib/server-signer";
+import { apiRequest } from "@/lib/queryClient";
+import { getNip46Client, nip46Signer } from "@/lib/nip46";
 
 // Define custom Event type to match rx-nostr's event structure
-interface NostrEvent extends VerifiableEvent {
+export interface NostrEvent extends VerifiableEvent {
   id?: string;
   pubkey?: string;
   created_at: number;
@@ -18,859 +64,1237 @@ interface NostrEvent extends VerifiableEvent {
   sig?: string;
 }
 
-const METADATA_CACHE_KEY = "nostr_metadata_cache";
-const METADATA_TIMESTAMP_KEY = "nostr_metadata_timestamp";
+const LEGACY_METADATA_CACHE_KEY = "nostr_metadata_cache";
+const LEGACY_METADATA_TIMESTAMP_KEY = "nostr_metadata_timestamp";
 const CACHE_TTL = 1000 * 60 * 60 * 3; // 3時間
-const MAX_CACHED_METADATA = 1000;
 const METADATA_TIMEOUT = 15000; // 15秒でタイムアウト
+const METADATA_BATCH_DELAY = 50;
+const METADATA_BATCH_SIZE = 100;
+const MAX_METADATA_OUTBOX_RELAYS = 10;
 
-interface UserMetadata {
+export interface UserMetadata {
   name?: string;
   picture?: string;
   about?: string;
+  display_name?: string;
+  banner?: string;
+  website?: string;
+  nip05?: string;
+  lud16?: string;
 }
 
-const DEFAULT_RELAYS = ["wss://r.kojira.io", "wss://x.kojira.io"];
 const DEBUG = true;
 
-// rx-nostrインスタンス管理
-let globalRxInstance: RxNostr | null = null;
-let globalInitialized = false;
-let isProcessingMetadata = false;
+export function debugLog(message: string, ...args: any[]) {
+  if (DEBUG) {
+    console.log(`[Nostr ${new Date().toISOString()}] ${message}`, ...args);
+  }
+}
 
-// ローカルストレージ操作ユーティリティ
-const storage = {
-  saveMetadata(
-    pubkey: string,
-    data: { data: UserMetadata; timestamp: number; error?: string },
-  ) {
-    try {
-      const cache = this.loadAllMetadata();
-      cache[pubkey] = data;
-
-      // キャッシュサイズの制限
-      const entries = Object.entries(cache);
-      if (entries.length > MAX_CACHED_METADATA) {
-        const sortedEntries = entries
-          .sort(([, a], [, b]) => b.timestamp - a.timestamp)
-          .slice(0, MAX_CACHED_METADATA);
-        const newCache = Object.fromEntries(sortedEntries);
-        localStorage.setItem(METADATA_CACHE_KEY, JSON.stringify(newCache));
-      } else {
-        localStorage.setItem(METADATA_CACHE_KEY, JSON.stringify(cache));
-      }
-      localStorage.setItem(METADATA_TIMESTAMP_KEY, Date.now().toString());
-    } catch (error) {
-      console.error("Error saving metadata to localStorage:", error);
+// Nostrのkind定義
+export const KIND = {
+  METADATA: 0,
+  TEXT_NOTE: 1,
+  CONTACT_LIST: 3,
+  DELETION: 5,
+  REPOST: 6,
+  REACTION: 7,
+  ZAP_RECEIPT: 9735,
+  RELAY_LIST: 10002,
+} as const;
+
+// eventToPostで受信元が不明な場合に使う読み取りリレー（プロバイダーのリレー設定に追従する）
+let defaultReadRelayUrls = getReadRelayUrls(DEFAULT_RELAYS);
+
+// NIP-65: 投稿者ごとのリレーリストのキャッシュ
+const RELAY_LIST_TTL = 1000 * 60 * 30; // 30分
+const RELAY_LIST_TIMEOUT = 5000;
+const relayListCache = new Map<string, { relays: Relay[]; timestamp: number }>();
+const relayListRequests = new Map<string, Promise<Relay[]>>();
+
+export interface ReactionSummary {
+  content: string;
+  emojiUrl?: string;
+  count: number;
+  // 自分のリアクションのイベントID（取り消し用。重複して送信した場合は複数になる）
+  selfReactionIds: string[];
+}
+
+// NIP-25: リアクションを内容ごとに集計（同一ユーザーの重複は1件として数える）
+export function summarizeReactions(
+  events: NostrEvent[],
+  selfPubkey?: string,
+): ReactionSummary[] {
+  const groups = new Map<string, ReactionSummary & { pubkeys: Set<string> }>();
+
+  events.forEach((event) => {
+    const content = event.content === "" ? "+" : event.content;
+    const shortcode = content.match(/^:([\w-]+):$/)?.[1];
+    const emojiUrl = shortcode
+      ? event.tags.find((tag) => tag[0] === "emoji" && tag[1] === shortcode)?.[2]
+      : undefined;
+    const key = emojiUrl ? `${content}|${emojiUrl}` : content;
+
+    const group = groups.get(key) ?? {
+      content,
+      emojiUrl,
+      count: 0,
+      pubkeys: new Set<string>(),
+      selfReactionIds: [],
+    };
+    if (!group.pubkeys.has(event.pubkey!)) {
+      group.pubkeys.add(event.pubkey!);
+      group.count++;
     }
-  },
+    if (event.pubkey === selfPubkey && event.id) {
+      group.selfReactionIds.push(event.id);
+    }
+    groups.set(key, group);
+  });
 
-  loadAllMetadata(): Record<
-    string,
-    { data: UserMetadata; timestamp: number; error?: string }
-  > {
-    try {
-      const cache = localStorage.getItem(METADATA_CACHE_KEY);
-      return cache ? JSON.parse(cache) : {};
-    } catch (error) {
-      console.error("Error loading metadata from localStorage:", error);
-      return {};
+  return Array.from(groups.values())
+    .map(({ content, emojiUrl, count, selfReactionIds }) => ({ content, emojiUrl, count, selfReactionIds }))
+    .sort((a, b) => (a.content === "+" ? -1 : b.content === "+" ? 1 : b.count - a.count));
+}
+
+// スレッド表示用のデータ
+export interface ThreadData {
+  root: Post | null;
+  ancestors: Post[];
+  target: Post | null;
+  replies: Post[];
+}
+
+// イベントをPostに変換（relaysには受信元のリレーを記録する）
+export function eventToPost(event: NostrEvent, relays = defaultReadRelayUrls): Post {
+  return {
+    id: 0,
+    userId: 0,
+    content: event.content,
+    createdAt: new Date(event.created_at * 1000).toISOString(),
+    nostrEventId: event.id!,
+    pubkey: event.pubkey!,
+    signature: event.sig!,
+    metadata: {
+      tags: event.tags || [],
+      relays,
+      kind: event.kind,
+    },
+  };
+}
+
+// Postを署名済みイベントの形に戻す
+function postToEvent(post: Post): NostrEvent {
+  return {
+    id: post.nostrEventId,
+    pubkey: post.pubkey,
+    created_at: Math.floor(new Date(post.createdAt).getTime() / 1000),
+    kind: post.metadata?.kind ?? 1,
+    tags: post.metadata?.tags || [],
+    content: post.content,
+    sig: post.signature,
+  };
+}
+
+// NIP-18: リポストの対象イベントIDを取得
+export function getRepostedEventId(post: Post): string | undefined {
+  return post.metadata?.tags?.find((tag) => tag[0] === "e")?.[1];
+}
+
+// NIP-18: リポストのcontentに埋め込まれた元イベントを取り出す（署名検証済みのもののみ）
+function getEmbeddedRepostEvent(post: Post): NostrEvent | undefined {
+  try {
+    const event = JSON.parse(post.content);
+    if (event && event.id === getRepostedEventId(post) && verifyEvent(event)) {
+      return event as NostrEvent;
     }
+  } catch {
+    // contentが空、または不正なJSONの場合は埋め込みなしとして扱う
+  }
+  return undefined;
+}
+
+// NIP-10: 返信先の親イベントIDを取得（markerなしの旧形式にも対応）
+export function getReplyParentId(tags: string[][]): string | undefined {
+  const { root, reply } = nip10.parse({ tags });
+  return reply?.id ?? root?.id;
+}
+
+// NIP-10: 返信イベントのe/pタグを組み立てる
+function buildReplyTags(parent: Post, selfPubkey: string): string[][] {
+  const parentTags = parent.metadata?.tags || [];
+  const relay = parent.metadata?.relays?.[0] || "";
+  const { root } = nip10.parse({ tags: parentTags });
+
+  const tags: string[][] = root
+    ? [
+        ["e", root.id, root.relays?.[0] || relay, "root"],
+        ["e", parent.nostrEventId, relay, "reply"],
+      ]
+    : [["e", parent.nostrEventId, relay, "root"]];
+
+  // 親の投稿者と、親が参照している全員をpタグに含める
+  const pubkeys = new Set<string>([parent.pubkey]);
+  parentTags
+    .filter((tag) => tag[0] === "p" && tag[1])
+    .forEach((tag) => pubkeys.add(tag[1]));
+  pubkeys.delete(selfPubkey);
+  pubkeys.forEach((pubkey) => tags.push(["p", pubkey]));
+
+  return tags;
+}
+
+
+// メタデータのメモリキャッシュ（kind 0イベント自体はIndexedDBのイベントストアに保存する）
+type MetadataCacheEntry = { data: UserMetadata; timestamp: number; error?: string };
+const metadataCache = new Map<string, MetadataCacheEntry>();
+let metadataCacheLoad: Promise<void> | null = null;
+
+const storage = {
+  // 起動時に一度だけイベントストアからkind 0を読み込む
+  loadMetadataCache(): Promise<void> {
+    if (metadataCacheLoad) return metadataCacheLoad;
+
+    // 旧バージョンのlocalStorageキャッシュは不要になったため削除する
+    localStorage.removeItem(LEGACY_METADATA_CACHE_KEY);
+    localStorage.removeItem(LEGACY_METADATA_TIMESTAMP_KEY);
+
+    metadataCacheLoad = pruneEvents()
+      .then(() => getEventsByKind(KIND.METADATA))
+      .then((events) => {
+        events.forEach((event) => {
+          const data = parseMetadata(event);
+          if (data && !metadataCache.has(event.pubkey)) {
+            metadataCache.set(event.pubkey, { data, timestamp: event.receivedAt });
+          }
+        });
+      })
+      .catch((error) => console.error("Error loading metadata from event store:", error));
+    return metadataCacheLoad;
+  },
+
+  loadAllMetadata(): Map<string, MetadataCacheEntry> {
+    return metadataCache;
   },
 
   loadMetadata(pubkey: string) {
-    const cache = this.loadAllMetadata();
-    return cache[pubkey];
+    return metadataCache.get(pubkey);
   },
 
-  // 期限切れのキャッシュを削除し、有効なキャッシュのみを返す
-  clearExpiredMetadata() {
-    const now = Date.now();
-    const cache = this.loadAllMetadata();
-    const validEntries = Object.entries(cache).filter(
-      ([, value]) => now - value.timestamp < CACHE_TTL && !value.error
-    );
-    const newCache = Object.fromEntries(validEntries);
-    localStorage.setItem(METADATA_CACHE_KEY, JSON.stringify(newCache));
-    localStorage.setItem(METADATA_TIMESTAMP_KEY, now.toString());
-    return newCache;
+  updateMetadataMany(
+    entries: { pubkey: string; data: UserMetadata; error?: string }[],
+  ) {
+    const timestamp = Date.now();
+    entries.forEach(({ pubkey, data, error }) => {
+      metadataCache.set(pubkey, { data, timestamp, error });
+    });
   },
 
   // キャッシュの更新（既存のエントリがある場合は上書き）
-  updateMetadata(
-    pubkey: string,
-    data: UserMetadata,
-    error?: string
-  ) {
-    const cacheEntry = {
-      data,
-      timestamp: Date.now(),
-      error,
-    };
-    this.saveMetadata(pubkey, cacheEntry);
+  updateMetadata(pubkey: string, data: UserMetadata, error?: string) {
+    const cacheEntry = { data, timestamp: Date.now(), error };
+    metadataCache.set(pubkey, cacheEntry);
     return cacheEntry;
-  }
+  },
 };
 
-export function useNostr() {
-  const { toast } = useToast();
-  const { user } = useAuth();
-  const [initialized, setInitialized] = useState(false);
-  const [posts, setPosts] = useState<Map<string, Post>>(new Map());
-  const [userMetadata, setUserMetadata] = useState<Map<string, UserMetadata>>(
-    new Map(),
-  );
-  const seenEvents = useRef<Set<string>>(new Set());
-  const lastEventTimestamp = useRef<number>(0);
-  const isInitialLoadComplete = useRef(false);
-  const pendingMetadata = useRef<string[]>([]);
-  const [isSubscriptionReady, setIsSubscriptionReady] = useState(false);
-  const subscriptionReadyRef = useRef(false);
-  const previousUserRef = useRef(user);
-  const [following, setFollowing] = useState<Set<string>>(new Set());
 
-  const debugLog = useCallback((message: string, ...args: any[]) => {
-    if (DEBUG) {
-      console.log(`[Nostr ${new Date().toISOString()}] ${message}`, ...args);
-    }
-  }, []);
+function isValidMetadataCache(pubkey: string): boolean {
+  const cached = storage.loadMetadata(pubkey);
+  return !!cached && Date.now() - cached.timestamp < CACHE_TTL && !cached.error;
+}
 
-  // rx-nostrインスタンスのリセット処理
-  const resetNostrInstance = useCallback(() => {
-    debugLog("Resetting rx-nostr instance");
-    globalRxInstance = null;
-    globalInitialized = false;
-    setInitialized(false);
-    setIsSubscriptionReady(false);
-    subscriptionReadyRef.current = false;
-    isInitialLoadComplete.current = false;
-    seenEvents.current.clear();
-    setPosts(new Map());
-    setFollowing(new Set());
-  }, [debugLog]);
-
-  // ユーザー変更の監視
-  useEffect(() => {
-    if (user?.publicKey !== previousUserRef.current?.publicKey) {
-      debugLog("User changed, resetting Nostr client");
-      resetNostrInstance();
-    }
-    previousUserRef.current = user;
-  }, [user, resetNostrInstance, debugLog]);
-
-  // キャッシュの有効性をチェックする関数
-  const isValidCache = useCallback((pubkey: string): boolean => {
-    const cached = storage.loadMetadata(pubkey);
-    return (
-      cached &&
-      Date.now() - cached.timestamp < CACHE_TTL &&
-      !cached.error
-    );
-  }, []);
+function parseMetadata(event: NostrEvent): UserMetadata | null {
+  try {
+    const metadata = JSON.parse(event.content);
+    if (!metadata || typeof metadata !== "object") return null;
+    // 文字列以外の値は表示に使わない
+    const text = (key: string): string | undefined =>
+      typeof metadata[key] === "string" && metadata[key] ? metadata[key] : undefined;
+    return {
+      name: text("name") || shortNpub(event.pubkey!),
+      picture: text("picture"),
+      about: text("about"),
+      display_name: text("display_name"),
+      banner: text("banner"),
+      website: text("website"),
+      nip05: text("nip05"),
+      lud16: text("lud16"),
+    };
+  } catch {
+    return null;
+  }
+}
 
-  // キャッシュからメタデータを適用する関数
-  const applyMetadataFromCache = useCallback((pubkey: string) => {
-    const cached = storage.loadMetadata(pubkey);
-    if (cached && !cached.error) {
-      setUserMetadata((current) => {
-        const updated = new Map(current);
-        updated.set(pubkey, cached.data);
-        return updated;
+// 表示用のメタデータ（useUserMetadataで著者ごとに購読する）
+function createMetadataStore() {
+  const metadata = new Map<string, UserMetadata>();
+  const listeners = new Set<() => void>();
+  const emitChange = () => listeners.forEach((listener) => listener());
+
+  return {
+    get: (pubkey: string) => metadata.get(pubkey),
+    set(pubkey: string, data: UserMetadata) {
+      if (metadata.get(pubkey) === data) return;
+      metadata.set(pubkey, data);
+      emitChange();
+    },
+    // 既に表示中のものは上書きしない（起動時のキャッシュ読み込み用）
+    fill(entries: Map<string, UserMetadata>) {
+      let changed = false;
+      entries.forEach((data, pubkey) => {
+        if (metadata.has(pubkey)) return;
+        metadata.set(pubkey, data);
+        changed = true;
       });
-      return true;
+      if (changed) emitChange();
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// メタデータの一括取得（複数コンポーネントからの要求をまとめて1つのREQにする）
+function createMetadataLoader(rxNostr: RxNostr) {
+  const requests = new Map<string, Promise<UserMetadata>>();
+  let batch = new Map<
+    string,
+    { resolve: (metadata: UserMetadata) => void; reject: (error: unknown) => void }
+  >();
+  let batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // 複数の著者のkind 0を1つのREQで取得し、著者ごとに最新のものを残す
+  // completedがfalseの場合はタイムアウトで打ち切っている
+  const fetchLatestEvents = (
+    pubkeys: string[],
+  ): Promise<{ events: Map<string, NostrEvent>; completed: boolean }> => {
+    // NIP-65: キャッシュ済みのリレーリストがあれば著者の書き込みリレーも問い合わせる
+    const relayCounts = new Map<string, number>();
+    pubkeys.forEach((pubkey) => {
+      const cached = relayListCache.get(pubkey);
+      if (!cached || Date.now() - cached.timestamp >= RELAY_LIST_TTL) return;
+      getWriteRelayUrls(cached.relays).forEach((url) => {
+        relayCounts.set(url, (relayCounts.get(url) ?? 0) + 1);
+      });
+    });
+    const outboxRelays = Array.from(relayCounts.entries())
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, MAX_METADATA_OUTBOX_RELAYS)
+      .map(([url]) => url);
+    const options: RxNostrUseOptions | undefined =
+      outboxRelays.length > 0
+        ? { on: { relays: outboxRelays, defaultReadRelays: true } }
+        : undefined;
+
+    return new Promise((resolve) => {
+      const events = new Map<string, NostrEvent>();
+      const rxReq = createRxBackwardReq();
+      let isCompleted = false;
+
+      const finish = (completed: boolean) => {
+        if (isCompleted) return;
+        isCompleted = true;
+        clearTimeout(timeoutId);
+        subscription.unsubscribe();
+        resolve({ events, completed });
+      };
+
+      const timeoutId = setTimeout(() => finish(false), METADATA_TIMEOUT);
+
+      const subscription = rxNostr.use(rxReq, options).subscribe({
+        next: ({ event }) => {
+          const current = events.get(event.pubkey);
+          if (!current || current.created_at < event.created_at) {
+            events.set(event.pubkey, event as NostrEvent);
+          }
+        },
+        error: (error) => {
+          console.error("Metadata subscription error:", error);
+          finish(false);
+        },
+        complete: () => finish(true),
+      });
+
+      rxReq.emit({ kinds: [KIND.METADATA], authors: pubkeys });
+      rxReq.over();
+    });
+  };
+
+  const fetchBatch = async (pubkeys: string[]): Promise<Map<string, UserMetadata>> => {
+    const { events, completed } = await fetchLatestEvents(pubkeys);
+    storeEvents(Array.from(events.values()) as SignedEvent[]);
+    const entries = pubkeys.map((pubkey) => {
+      const event = events.get(pubkey);
+      const metadata = event ? parseMetadata(event) : null;
+      if (metadata) return { pubkey, data: metadata };
+      // 応答がなかった著者のみタイムアウト扱いにする
+      return {
+        pubkey,
+        data: { name: shortNpub(pubkey), picture: undefined },
+        error: event ? "Invalid metadata" : completed ? "Not found" : "Timeout",
+      };
+    });
+    storage.updateMetadataMany(entries);
+    return new Map(entries.map(({ pubkey, data }) => [pubkey, data]));
+  };
+
+  const flush = () => {
+    batchTimer = null;
+    const current = batch;
+    batch = new Map();
+
+    chunkArray(Array.from(current.keys()), METADATA_BATCH_SIZE).forEach((pubkeys) => {
+      fetchBatch(pubkeys)
+        .then((results) => {
+          pubkeys.forEach((pubkey) => current.get(pubkey)!.resolve(results.get(pubkey)!));
+        })
+        .catch((error) => {
+          pubkeys.forEach((pubkey) => current.get(pubkey)!.reject(error));
+        })
+        .finally(() => {
+          pubkeys.forEach((pubkey) => requests.delete(pubkey));
+        });
+    });
+  };
+
+  return {
+    // 同じ著者への進行中の要求は共有する
+    request(pubkey: string): Promise<UserMetadata> {
+      const inFlight = requests.get(pubkey);
+      if (inFlight) return inFlight;
+
+      const request = new Promise<UserMetadata>((resolve, reject) => {
+        batch.set(pubkey, { resolve, reject });
+      });
+      requests.set(pubkey, request);
+      if (!batchTimer) {
+        batchTimer = setTimeout(flush, METADATA_BATCH_DELAY);
+      }
+      return request;
+    },
+  };
+}
+
+// NIP-25: リアクション対象は最後のeタグ
+function getReactedEventId(tags: string[][]): string | undefined {
+  return tags.filter((tag) => tag[0] === "e").pop()?.[1];
+}
+
+// リアクション購読の管理（表示中の投稿をまとめて1つのREQで購読する）
+// NIP-09: 表示中のリアクションへの削除リクエスト（kind 5）も購読し、購読者へ渡す
+const REACTION_EMIT_DELAY = 300;
+
+function createReactionHub() {
+  const watchers = new Map<string, Set<(event: NostrEvent) => void>>();
+  // 表示中の投稿へのリアクションID → 対象の投稿ID
+  const reactionTargets = new Map<string, string>();
+  // 削除されたリアクションID → 削除リクエストの作成者（リアクションより先に届いた場合に使う）
+  const deletedBy = new Map<string, Set<string>>();
+  let rxNostr: RxNostr | null = null;
+  let rxReq: ReturnType<typeof createRxForwardReq> | null = null;
+  let deletionReq: ReturnType<typeof createRxForwardReq> | null = null;
+  let subscriptions: { unsubscribe(): void }[] = [];
+  let emitTimer: ReturnType<typeof setTimeout> | null = null;
+  let deletionEmitTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const dispatchReaction = (event: NostrEvent) => {
+    const targetId = getReactedEventId(event.tags);
+    if (!targetId || !event.id) return;
+    // 作成者本人が削除済みのリアクションは反映しない
+    if (deletedBy.get(event.id)?.has(event.pubkey!)) return;
+    if (watchers.has(targetId) && !reactionTargets.has(event.id)) {
+      reactionTargets.set(event.id, targetId);
+      scheduleDeletionRequest();
     }
-    return false;
-  }, []);
+    watchers.get(targetId)?.forEach((listener) => listener(event));
+  };
 
-  // メタデータ取得の処理 - 1件ずつシリアルに処理
-  const processMetadataQueue = useCallback(async () => {
-    if (isProcessingMetadata || !pendingMetadata.current.length) {
-      return;
+  // 削除の有効性（リアクションと作成者が同じか）は購読者側で判定する
+  const dispatchDeletion = (event: NostrEvent) => {
+    const targetIds = new Set<string>();
+    event.tags.forEach(([name, id]) => {
+      if (name !== "e" || !id) return;
+      deletedBy.set(id, (deletedBy.get(id) ?? new Set()).add(event.pubkey!));
+      const targetId = reactionTargets.get(id);
+      if (targetId) targetIds.add(targetId);
+    });
+    targetIds.forEach((targetId) => {
+      watchers.get(targetId)?.forEach((listener) => listener(event));
+    });
+  };
+
+  const dispatch = (event: NostrEvent) => {
+    if (event.kind === KIND.DELETION) {
+      dispatchDeletion(event);
+    } else {
+      dispatchReaction(event);
     }
+  };
 
-    isProcessingMetadata = true;
-    debugLog("Starting metadata queue processing");
+  const ensureRequests = (instance: RxNostr) => {
+    if (rxReq && deletionReq) return { rxReq, deletionReq };
+    rxReq = createRxForwardReq();
+    deletionReq = createRxForwardReq();
+    subscriptions = [rxReq, deletionReq].map((req) =>
+      instance.use(req).subscribe({
+        next: ({ event }) => dispatch(event as NostrEvent),
+        error: (error) => console.error("Reaction subscription error:", error),
+      }),
+    );
+    return { rxReq, deletionReq };
+  };
 
-    try {
-      while (pendingMetadata.current.length > 0) {
-        const pubkey = pendingMetadata.current[0];
-
-        // キャッシュを再確認
-        if (isValidCache(pubkey)) {
-          debugLog(`Using cached metadata for ${pubkey}`);
-          applyMetadataFromCache(pubkey);
-          pendingMetadata.current.shift();
-          continue;
-        }
+  const scheduleRequest = () => {
+    if (emitTimer) clearTimeout(emitTimer);
+    emitTimer = setTimeout(() => {
+      emitTimer = null;
+      if (!rxNostr) return;
 
-        // rx-nostrの準備状態をチェック
-        if (!globalRxInstance || !subscriptionReadyRef.current) {
-          debugLog(
-            `Metadata load skipped: rxInstance=${!!globalRxInstance}, ready=${subscriptionReadyRef.current}`,
-          );
-          break;
-        }
+      const ids = Array.from(watchers.keys());
+      if (ids.length > 0) {
+        ensureRequests(rxNostr).rxReq.emit({ kinds: [KIND.REACTION], "#e": ids });
+      }
+    }, REACTION_EMIT_DELAY);
+  };
 
-        debugLog(`Requesting metadata for ${pubkey}`);
-
-        try {
-          await new Promise((resolve, reject) => {
-            const filter = {
-              kinds: [0],
-              authors: [pubkey],
-              limit: 1,
-            };
-
-            const rxReq = createRxForwardReq();
-            let isCompleted = false;
-
-            const timeoutId = setTimeout(() => {
-              if (!isCompleted) {
-                debugLog(`Metadata request timeout for ${pubkey}`);
-                const defaultMetadata = {
-                  name: `nostr:${pubkey.slice(0, 8)}`,
-                  picture: undefined,
-                };
-                storage.updateMetadata(pubkey, defaultMetadata, "Timeout");
-                setUserMetadata((current) => {
-                  const updated = new Map(current);
-                  updated.set(pubkey, defaultMetadata);
-                  return updated;
-                });
-                isCompleted = true;
-                resolve(undefined);
-              }
-            }, METADATA_TIMEOUT);
-
-            const subscription = globalRxInstance!.use(rxReq).subscribe({
-              next: ({ event }) => {
-                if (isCompleted) return;
-
-                try {
-                  debugLog(`Received metadata for ${event.pubkey}`);
-                  const metadata = JSON.parse(event.content) as UserMetadata;
-
-                  if (!metadata) {
-                    throw new Error("Invalid metadata format");
-                  }
-
-                  const processedMetadata = {
-                    name: metadata.name || `nostr:${event.pubkey.slice(0, 8)}`,
-                    picture: metadata.picture,
-                    about: metadata.about,
-                  };
-
-                  storage.updateMetadata(event.pubkey, processedMetadata);
-                  setUserMetadata((current) => {
-                    const updated = new Map(current);
-                    updated.set(event.pubkey, processedMetadata);
-                    return updated;
-                  });
-
-                  isCompleted = true;
-                  resolve(undefined);
-                } catch (error) {
-                  debugLog("Error processing metadata:", error);
-                  reject(error);
-                }
-              },
-              error: (error) => {
-                debugLog("Metadata subscription error:", error);
-                reject(error);
-              },
-              complete: () => {
-                if (!isCompleted) {
-                  debugLog(`No metadata found for ${pubkey}`);
-                  const defaultMetadata = {
-                    name: `nostr:${pubkey.slice(0, 8)}`,
-                    picture: undefined,
-                  };
-                  storage.updateMetadata(pubkey, defaultMetadata, "Not found");
-                  setUserMetadata((current) => {
-                    const updated = new Map(current);
-                    updated.set(pubkey, defaultMetadata);
-                    return updated;
-                  });
-                  isCompleted = true;
-                  resolve(undefined);
-                }
-              },
-            });
-
-            rxReq.emit(filter);
-
-            return () => {
-              subscription.unsubscribe();
-              clearTimeout(timeoutId);
-            };
+  const scheduleDeletionRequest = () => {
+    if (deletionEmitTimer) clearTimeout(deletionEmitTimer);
+    deletionEmitTimer = setTimeout(() => {
+      deletionEmitTimer = null;
+      if (!rxNostr) return;
+
+      const ids = Array.from(reactionTargets.keys());
+      if (ids.length > 0) {
+        ensureRequests(rxNostr).deletionReq.emit({ kinds: [KIND.DELETION], "#e": ids });
+      }
+    }, REACTION_EMIT_DELAY);
+  };
+
+  return {
+    dispatch,
+    watch(eventId: string, listener: (event: NostrEvent) => void) {
+      const listeners = watchers.get(eventId) ?? new Set();
+      const isNewTarget = listeners.size === 0;
+      listeners.add(listener);
+      watchers.set(eventId, listeners);
+      if (isNewTarget) {
+        scheduleRequest();
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          watchers.delete(eventId);
+          reactionTargets.forEach((targetId, reactionId) => {
+            if (targetId !== eventId) return;
+            reactionTargets.delete(reactionId);
+            deletedBy.delete(reactionId);
           });
-        } catch (error) {
-          debugLog(`Error fetching metadata for ${pubkey}:`, error);
         }
+      };
+    },
+    // rx-nostrインスタンスが切り替わったら、待機中の投稿の購読を張り直す
+    attach(instance: RxNostr | null) {
+      if (emitTimer) clearTimeout(emitTimer);
+      if (deletionEmitTimer) clearTimeout(deletionEmitTimer);
+      emitTimer = null;
+      deletionEmitTimer = null;
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+      subscriptions = [];
+      rxReq = null;
+      deletionReq = null;
+      rxNostr = instance;
+      if (instance && watchers.size > 0) {
+        scheduleRequest();
+        scheduleDeletionRequest();
+      }
+    },
+  };
+}
+
+interface FetchUserPostsOptions {
+  pubkey: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+  search?: string;
+  relays?: string[];
+}
 
-        pendingMetadata.current.shift();
-        await new Promise(resolve => setTimeout(resolve, 100)); // Rate limiting
+const CONTACT_LIST_TIMEOUT = 10000;
+
+// rx-nostrインスタンス・リレー設定・フォロー・メタデータをアプリ全体で共有する
+function useNostrState() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [rxNostr, setRxNostr] = useState<RxNostr | null>(null);
+  const signerRef = useRef<EventSigner | null>(null);
+  const [relays, setRelays] = useState<Relay[]>(DEFAULT_RELAYS);
+  const relaysRef = useRef(relays);
+  const [following, setFollowing] = useState<Set<string>>(new Set());
+  const [isFollowingLoaded, setIsFollowingLoaded] = useState(false);
+  const [metadataStore] = useState(createMetadataStore);
+  const [reactionHub] = useState(createReactionHub);
+  const pendingMetadata = useRef<Set<string>>(new Set());
+  const publishedListeners = useRef(new Set<(event: NostrEvent) => void>());
+  const relayListImportedFor = useRef<string | null>(null);
+  const relaysSyncedFor = useRef<string | null>(null);
+
+  // ユーザーごとにrx-nostrインスタンスを作成し、ログアウト・切り替え時に破棄する
+  const userType = user?.type;
+  const publicKey = user?.publicKey;
+  const privateKey = user?.privateKey;
+  const nip46Session = user?.nip46;
+  useEffect(() => {
+    let signer: EventSigner | null;
+    try {
+      debugLog("Starting rx-nostr initialization");
+      if (!userType) {
+        debugLog("No user available, initializing without signer");
+        signer = null;
+      } else if (userType === "extension") {
+        debugLog("Initializing with NIP-07 signer");
+        signer = nip07Signer();
+      } else if (userType === "generated" && privateKey) {
+        debugLog("Initializing with private key signer");
+        signer = seckeySigner(privateKey);
+      } else if (userType === "generated") {
+        // NIP-49: ロック中は署名できないため、解除されるまで署名なしで接続する
+        debugLog("Private key is locked, initializing without signer");
+        signer = null;
+      } else if (userType === "server" && publicKey) {
+        debugLog("Initializing with server signer");
+        signer = serverSigner(publicKey);
+      } else if (userType === "nip46" && nip46Session) {
+        debugLog("Initializing with NIP-46 remote signer");
+        signer = nip46Signer(getNip46Client(nip46Session));
+      } else {
+        throw new Error("Invalid user configuration");
       }
-    } finally {
-      isProcessingMetadata = false;
+    } catch (error) {
+      debugLog("Error during initialization:", error);
+      toast({
+        title: "エラー",
+        description: "初期化に失敗しました",
+        variant: "destructive",
+      });
+      return;
     }
-  }, [debugLog, isValidCache, applyMetadataFromCache]);
 
-  // メタデータ取得の公開インターフェース
-  const loadPostMetadata = useCallback(
-    (pubkey: string) => {
-      // キャッシュをチェック
-      if (isValidCache(pubkey)) {
-        debugLog(`Using cached metadata for ${pubkey}`);
-        applyMetadataFromCache(pubkey);
-        return;
-      }
+    const instance = createRxNostr(signer ? { verifier, signer } : { verifier });
+    // 読み取りリレーはREQ、書き込みリレーはEVENT送信にのみ使われる
+    const userRelays = loadRelays(publicKey);
+    instance.setDefaultRelays(userRelays);
+    signerRef.current = signer;
+    relaysRef.current = userRelays;
+    defaultReadRelayUrls = getReadRelayUrls(userRelays);
+    setRelays(userRelays);
+    setRxNostr(instance);
+    debugLog("Created new rx-nostr instance");
+
+    return () => {
+      debugLog("Disposing rx-nostr instance");
+      signerRef.current = null;
+      setRxNostr(null);
+      setFollowing(new Set());
+      setIsFollowingLoaded(false);
+      instance.dispose();
+    };
+  }, [userType, publicKey, privateKey, nip46Session, toast]);
+
+  useEffect(() => {
+    reactionHub.attach(rxNostr);
+    return () => reactionHub.attach(null);
+  }, [rxNostr, reactionHub]);
 
-      // キューに追加（重複を避ける）
-      if (!pendingMetadata.current.includes(pubkey)) {
-        pendingMetadata.current.push(pubkey);
-        // キューの処理を開始
-        processMetadataQueue().catch((error) =>
-          debugLog("Error processing metadata queue:", error),
-        );
+  // 初期化時にイベントストアのメタデータを読み込む
+  // 期限切れのものもすぐに表示し、要求時にリレーから取得し直す
+  useEffect(() => {
+    storage.loadMetadataCache().then(() => {
+      const entries = new Map<string, UserMetadata>();
+      storage.loadAllMetadata().forEach((value, pubkey) => {
+        if (!value.error) entries.set(pubkey, value.data);
+      });
+      metadataStore.fill(entries);
+    });
+  }, [metadataStore]);
+
+  // EOSEまでのイベントを取得する汎用ヘルパー
+  const fetchEvents = useCallback(
+    (
+      filters: LazyFilter | LazyFilter[],
+      timeout = 15000,
+      options?: RxNostrUseOptions,
+    ): Promise<NostrEvent[]> => {
+      if (!rxNostr) {
+        return Promise.reject(new Error("Nostr client not ready"));
       }
+
+      return new Promise<NostrEvent[]>((resolve) => {
+        const events = new Map<string, NostrEvent>();
+        const rxReq = createRxBackwardReq();
+        let isCompleted = false;
+
+        const finish = () => {
+          if (isCompleted) return;
+          isCompleted = true;
+          clearTimeout(timeoutId);
+          subscription.unsubscribe();
+          const results = Array.from(events.values());
+          storeEvents(results as SignedEvent[]);
+          resolve(results);
+        };
+
+        const timeoutId = setTimeout(() => {
+          debugLog("Fetch events timeout reached");
+          finish();
+        }, timeout);
+
+        const subscription = rxNostr.use(rxReq, options).subscribe({
+          next: ({ event }) => {
+            if (event.id && event.sig && !events.has(event.id)) {
+              events.set(event.id, event as NostrEvent);
+            }
+          },
+          error: (error) => {
+            debugLog("Error fetching events:", error);
+            finish();
+          },
+          complete: finish,
+        });
+
+        rxReq.emit(filters);
+        rxReq.over();
+      });
     },
-    [debugLog, isValidCache, applyMetadataFromCache, processMetadataQueue],
+    [rxNostr],
   );
 
-  // イベントとキャッシュの更新
-  const updatePostsAndCache = useCallback(
-    (event: NostrEvent, post: Post) => {
-      // イベントIDが存在し、署名が存在する場合のみ投稿を追加
-      if (event.id && event.sig) {
-        setPosts((currentPosts) => {
-          const updatedPosts = new Map(currentPosts);
-          // イベントIDをキーとして使用して重複を防ぐ
-          if (!updatedPosts.has(event.id)) {
-            updatedPosts.set(event.id, post);
-            debugLog(`Added new post with id: ${event.id}`);
+  // フィルターに一致するイベントを購読し続ける汎用ヘルパー（戻り値で購読解除）
+  // onEventの第2引数には受信元のリレーURLが渡される
+  const subscribeEvents = useCallback(
+    (
+      filters: LazyFilter | LazyFilter[],
+      onEvent: (event: NostrEvent, from: string) => void,
+      options?: RxNostrUseOptions,
+      onError?: (error: unknown) => void,
+    ): (() => void) => {
+      if (!rxNostr) {
+        throw new Error("Nostr client not ready");
+      }
+
+      const rxReq = createRxForwardReq();
+      const subscription = rxNostr.use(rxReq, options).subscribe({
+        next: ({ event, from }) => {
+          if (event.id && event.sig) {
+            onEvent(event as NostrEvent, from);
           }
-          return updatedPosts;
-        });
+        },
+        error: (error) => {
+          debugLog("Subscription error:", error);
+          onError?.(error);
+        },
+      });
+      rxReq.emit(filters);
 
-        // キャッシュされたメタデータがあれば即座に適用し、なければキューに追加
-        if (isValidCache(event.pubkey!)) {
-          debugLog(`Using cached metadata for ${event.pubkey}`);
-          applyMetadataFromCache(event.pubkey!);
-        } else if (!pendingMetadata.current.includes(event.pubkey!)) {
-          pendingMetadata.current.push(event.pubkey!);
-          processMetadataQueue().catch((error) =>
-            debugLog("Error processing metadata queue:", error),
-          );
-        }
-      } else {
-        debugLog("Skipping invalid event without id or signature");
+      return () => subscription.unsubscribe();
+    },
+    [rxNostr],
+  );
+
+  // リレーとの接続状態の変化を購読する（戻り値で購読解除）
+  const subscribeConnectionState = useCallback(
+    (onChange: (from: string, state: ConnectionState) => void): (() => void) => {
+      if (!rxNostr) {
+        throw new Error("Nostr client not ready");
       }
+      const subscription = rxNostr
+        .createConnectionStateObservable()
+        .subscribe(({ from, state }) => onChange(from, state));
+      return () => subscription.unsubscribe();
     },
-    [debugLog, isValidCache, applyMetadataFromCache, processMetadataQueue],
+    [rxNostr],
   );
 
-  // 初期化時にローカルストレージからキャッシュを読み込む
-  useEffect(() => {
-    // 期限切れのキャッシュをクリア
-    const validCache = storage.clearExpiredMetadata();
-
-    // メタデータを初期化
-    Object.entries(validCache).forEach(([pubkey, value]) => {
-      if (!value.error) {
-        setUserMetadata((current) => {
-          const updated = new Map(current);
-          updated.set(pubkey, value.data);
-          return updated;
-        });
+  // NIP-65: 投稿者のリレーリストを取得（キャッシュと進行中のリクエストを共有）
+  const getAuthorRelays = useCallback(
+    (pubkey: string): Promise<Relay[]> => {
+      const cached = relayListCache.get(pubkey);
+      if (cached && Date.now() - cached.timestamp < RELAY_LIST_TTL) {
+        return Promise.resolve(cached.relays);
       }
-    });
-  }, []);
 
-  // rx-nostrの初期化
-  useEffect(() => {
-    if (globalInitialized && initialized) {
-      debugLog("Using existing rx-nostr instance");
-      setInitialized(true);
-      setIsSubscriptionReady(true);
-      subscriptionReadyRef.current = true;
-      return;
-    }
+      const inFlight = relayListRequests.get(pubkey);
+      if (inFlight) return inFlight;
+
+      const request = fetchEvents({ kinds: [KIND.RELAY_LIST], authors: [pubkey] }, RELAY_LIST_TIMEOUT)
+        .then((events) => {
+          const latest = events.sort((a, b) => b.created_at - a.created_at)[0];
+          const authorRelays = latest ? parseRelayListTags(latest.tags) : [];
+          debugLog(`Relay list for ${pubkey}: ${authorRelays.length} relays`);
+          relayListCache.set(pubkey, { relays: authorRelays, timestamp: Date.now() });
+          return authorRelays;
+        })
+        .catch((error) => {
+          debugLog(`Error fetching relay list for ${pubkey}:`, error);
+          return [];
+        })
+        .finally(() => relayListRequests.delete(pubkey));
+
+      relayListRequests.set(pubkey, request);
+      return request;
+    },
+    [fetchEvents],
+  );
 
-    const initializeNostr = async () => {
-      try {
-        debugLog("Starting rx-nostr initialization");
-        if (!globalRxInstance) {
-          if (!user) {
-            debugLog("No user available, initializing without signer");
-            globalRxInstance = createRxNostr({ verifier });
-          } else if (user.type === "extension") {
-            debugLog("Initializing with NIP-07 signer");
-            globalRxInstance = createRxNostr({
-              verifier,
-              signer: nip07Signer()
-            });
-          } else if (user.type === "generated" && user.privateKey) {
-            debugLog("Initializing with private key signer");
-            globalRxInstance = createRxNostr({
-              verifier,
-              signer: seckeySigner(user.privateKey)
-            });
-          } else {
-            throw new Error("Invalid user configuration");
-          }
-          globalRxInstance.setDefaultRelays(DEFAULT_RELAYS);
-          globalInitialized = true;
-          debugLog("Created new rx-nostr instance");
-        }
-        setInitialized(true);
-
-        debugLog("Setting up subscriptions");
-        const setupSubscriptions = () => {
-          const initialFilter = {
-            kinds: [1],
-            limit: 30,
-            since: Math.floor(Date.now() / 1000) - 24 * 60 * 60,
-          };
-
-          const rxReqInitial = createRxForwardReq();
-          let initialEventsReceived = 0;
-
-          const initialSubscription = globalRxInstance!
-            .use(rxReqInitial)
-            .subscribe({
-              next: ({ event }) => {
-                if (!seenEvents.current.has(event.id)) {
-                  seenEvents.current.add(event.id);
-                  const post: Post = {
-                    id: 0,
-                    userId: 0,
-                    content: event.content,
-                    createdAt: new Date(event.created_at * 1000).toISOString(),
-                    nostrEventId: event.id!,
-                    pubkey: event.pubkey!,
-                    signature: event.sig!,
-                    metadata: {
-                      tags: event.tags || [],
-                      relays: DEFAULT_RELAYS,
-                    },
-                  };
-                  updatePostsAndCache(event, post);
-                  initialEventsReceived++;
-                  debugLog(`Received initial event: ${event.id}`);
-                }
-              },
-              error: (error) => {
-                debugLog("Initial fetch error:", error);
-                toast({
-                  title: "エラー",
-                  description: "初期データの取得に失敗しました",
-                  variant: "destructive",
-                });
-              },
-              complete: () => {
-                debugLog(`Initial fetch completed with ${initialEventsReceived} events`);
-                setIsSubscriptionReady(true);
-                subscriptionReadyRef.current = true;
-                isInitialLoadComplete.current = true;
-              },
-            });
-
-          const continuousFilter = {
-            kinds: [1],
-            since: Math.floor(Date.now() / 1000),
-          };
-
-          debugLog("Setting up continuous subscription");
-          const rxReqContinuous = createRxForwardReq();
-          const continuousSubscription = globalRxInstance!
-            .use(rxReqContinuous)
-            .subscribe({
-              next: ({ event }) => {
-                if (!seenEvents.current.has(event.id)) {
-                  seenEvents.current.add(event.id);
-                  const post: Post = {
-                    id: 0,
-                    userId: 0,
-                    content: event.content,
-                    createdAt: new Date(event.created_at * 1000).toISOString(),
-                    nostrEventId: event.id!,
-                    pubkey: event.pubkey!,
-                    signature: event.sig!,
-                    metadata: {
-                      tags: event.tags || [],
-                      relays: DEFAULT_RELAYS,
-                    },
-                  };
-                  updatePostsAndCache(event, post);
-                }
-              },
-              error: (error) => {
-                debugLog("Continuous subscription error:", error);
-              },
-            });
-
-          rxReqInitial.emit(initialFilter);
-          rxReqContinuous.emit(continuousFilter);
-
-          return () => {
-            initialSubscription.unsubscribe();
-            continuousSubscription.unsubscribe();
-          };
-        };
+  // NIP-65: 投稿者の書き込みリレーと自分の読み取りリレーを併用するREQオプション
+  // relayHintsにはNIP-19のnprofile等に含まれるリレーヒントを渡せる
+  const getOutboxOptions = useCallback(
+    async (pubkey: string, relayHints: string[] = []): Promise<RxNostrUseOptions | undefined> => {
+      const writeRelays = getWriteRelayUrls(await getAuthorRelays(pubkey));
+      const targetRelays = Array.from(new Set([...writeRelays, ...relayHints]));
+      return targetRelays.length > 0
+        ? { on: { relays: targetRelays, defaultReadRelays: true } }
+        : undefined;
+    },
+    [getAuthorRelays],
+  );
 
-        return setupSubscriptions();
-      } catch (error) {
-        debugLog("Error during initialization:", error);
-        toast({
-          title: "エラー",
-          description: "初期化に失敗しました",
-          variant: "destructive",
-        });
+  // 一括ローダーでメタデータを取得し、共有ストアへ反映する
+  const metadataLoader = useMemo(
+    () => (rxNostr ? createMetadataLoader(rxNostr) : null),
+    [rxNostr],
+  );
+
+  const fetchUserMetadata = useCallback(
+    (pubkey: string) => {
+      // rx-nostrの準備ができるまでは保留し、準備完了時にまとめて要求する
+      if (!metadataLoader) {
+        pendingMetadata.current.add(pubkey);
+        return;
       }
-    };
 
-    initializeNostr();
-  }, [debugLog, toast, updatePostsAndCache, user, initialized]);
+      metadataLoader
+        .request(pubkey)
+        .then((metadata) => metadataStore.set(pubkey, metadata))
+        .catch((error) => debugLog(`Error fetching metadata for ${pubkey}:`, error));
+    },
+    [metadataLoader, metadataStore],
+  );
 
-  // Create post mutation
-  const createPostMutation = useMutation({
-    mutationFn: async (content: string) => {
-      if (!user || !globalRxInstance) {
-        throw new Error("Not ready to post");
+  useEffect(() => {
+    if (!metadataLoader || pendingMetadata.current.size === 0) return;
+    const pending = Array.from(pendingMetadata.current);
+    pendingMetadata.current.clear();
+    debugLog(`Requesting metadata for ${pending.length} deferred authors`);
+    pending.forEach(fetchUserMetadata);
+  }, [metadataLoader, fetchUserMetadata]);
+
+  // メタデータ取得の公開インターフェース
+  const loadPostMetadata = useCallback(
+    (pubkey: string) => {
+      // キャッシュをチェック
+      if (isValidMetadataCache(pubkey)) {
+        metadataStore.set(pubkey, storage.loadMetadata(pubkey)!.data);
+        return;
       }
+      fetchUserMetadata(pubkey);
+    },
+    [metadataStore, fetchUserMetadata],
+  );
 
-      debugLog("Creating new post event");
-      const event = {
-        kind: 1,
-        content,
-        created_at: Math.floor(Date.now() / 1000),
-        tags: [],
-      };
+  // 自分のメタデータを公開直後に反映する
+  const setOwnMetadata = useCallback(
+    (pubkey: string, metadata: UserMetadata) => {
+      metadataStore.set(pubkey, storage.updateMetadata(pubkey, metadata).data);
+    },
+    [metadataStore],
+  );
 
-      debugLog("Sending signed post with content:", content);
+  // 編集用に最新のkind 0を取得する（未知の項目を失わないよう表示用のメタデータではなくイベントを返す）
+  // どのリレーからもEOSEが届かない、またはタイムアウトした場合はokがfalseになる
+  const fetchProfileEvent = useCallback(
+    async (pubkey: string): Promise<{ event: NostrEvent | null; ok: boolean }> => {
+      if (!rxNostr) {
+        throw new Error("Nostr client not ready");
+      }
 
-      return new Promise<Post>((resolve, reject) => {
-        let successCount = 0;
-        let failureCount = 0;
-        const totalRelays = DEFAULT_RELAYS.length;
+      const stored = await getReplaceableEvent(KIND.METADATA, pubkey).catch(() => undefined);
+      const options = await getOutboxOptions(pubkey);
 
-        globalRxInstance!.send(event).subscribe({
-          next: (packet) => {
-            debugLog(`Relay response from ${packet.from}:`, packet);
-            if (packet.ok) {
-              debugLog(`Post sent successfully to ${packet.from}`);
-              successCount++;
+      return new Promise((resolve) => {
+        let latest: NostrEvent | null = (stored as NostrEvent | undefined) ?? null;
+        const rxReq = createRxBackwardReq(`profile-${Date.now()}`);
+        const answeredRelays = new Set<string>();
+        let isCompleted = false;
 
-              const post: Post = {
-                id: 0,
-                userId: 0,
-                content: event.content,
-                createdAt: new Date(event.created_at * 1000).toISOString(),
-                nostrEventId: event.id,
-                pubkey: event.pubkey,
-                signature: event.sig,
-                metadata: {
-                  tags: event.tags,
-                  relays: DEFAULT_RELAYS,
-                },
-              };
+        const finish = (completed: boolean) => {
+          if (isCompleted) return;
+          isCompleted = true;
+          clearTimeout(timeoutId);
+          subscription.unsubscribe();
+          eoseSubscription.unsubscribe();
+          debugLog(`Profile fetched from ${answeredRelays.size} relays`);
+          resolve({ event: latest, ok: completed && answeredRelays.size > 0 });
+        };
 
-              if (successCount === 1) {
-                resolve(post);
-              }
-            } else {
-              debugLog(`Failed to send post to ${packet.from}`);
-              failureCount++;
-            }
+        const timeoutId = setTimeout(() => finish(false), METADATA_TIMEOUT);
 
-            if (successCount + failureCount === totalRelays) {
-              debugLog(`Post sending completed. Success: ${successCount}, Failed: ${failureCount}`);
-              if (successCount === 0) {
-                reject(new Error("Failed to send to all relays"));
-              }
+        // 応答したリレーをEOSEで判定する（イベントが0件でも応答とみなす）
+        const eoseSubscription = rxNostr.createAllMessageObservable().subscribe((packet) => {
+          if (packet.type === "EOSE" && packet.subId.startsWith(`${rxReq.rxReqId}:`)) {
+            answeredRelays.add(packet.from);
+          }
+        });
+
+        const subscription = rxNostr.use(rxReq, options).subscribe({
+          next: ({ event }) => {
+            if (!latest || event.created_at > latest.created_at) {
+              latest = event as NostrEvent;
             }
+            storeEvents([event as SignedEvent]);
           },
           error: (error) => {
-            debugLog("Error sending post:", error);
-            reject(error);
+            debugLog("Error fetching profile:", error);
+            finish(false);
           },
+          complete: () => finish(true),
         });
+
+        rxReq.emit({ kinds: [KIND.METADATA], authors: [pubkey] });
+        rxReq.over();
       });
     },
-    onSuccess: (post) => {
-      if (post.nostrEventId && post.signature) {
-        setPosts((currentPosts) => {
-          const updatedPosts = new Map(currentPosts);
-          updatedPosts.set(post.nostrEventId, post);
-          return updatedPosts;
-        });
-        toast({
-          title: "成功",
-          description: "投稿を送信しました",
-        });
-      }
-    },
-    onError: (error) => {
-      console.error("Error creating post:", error);
-      toast({
-        title: "エラー",
-        description: "投稿に失敗しました",
-        variant: "destructive",
-      });
-    },
-  });
+    [rxNostr, getOutboxOptions],
+  );
 
-  // Add updateProfile mutation
-  const updateProfileMutation = useMutation({
-    mutationFn: async (metadata: { name?: string; about?: string; picture?: string }) => {
-      if (!user || !globalRxInstance) {
-        throw new Error("Not ready to update profile");
+  // 署名済みイベントをリレーへ送信し、最初の成功時に解決する
+  // extraRelaysを指定すると自分の書き込みリレーに加えてそれらにも送信する
+  const sendSignedEvent = useCallback(
+    async (event: NostrEvent, extraRelays: string[] = []) => {
+      if (!rxNostr) {
+        throw new Error("Not ready to publish");
       }
+      debugLog(`Publishing kind ${event.kind} event: ${event.id}`);
 
-      debugLog("Creating profile update event");
-      const event = {
-        kind: 0,
-        content: JSON.stringify(metadata),
-        created_at: Math.floor(Date.now() / 1000),
-        tags: [],
-      };
+      const writeRelays = getWriteRelayUrls(relaysRef.current);
+      const targetRelays = Array.from(new Set([...writeRelays, ...extraRelays]));
+      if (targetRelays.length === 0) {
+        throw new Error("No write relays configured");
+      }
 
-      debugLog("Sending signed profile update with content:", metadata);
+      const options =
+        extraRelays.length > 0
+          ? { on: { relays: extraRelays, defaultWriteRelays: true } }
+          : undefined;
 
-      return new Promise<void>((resolve, reject) => {
+      return new Promise<NostrEvent>((resolve, reject) => {
         let successCount = 0;
         let failureCount = 0;
-        const totalRelays = DEFAULT_RELAYS.length;
+        const totalRelays = targetRelays.length;
 
-        globalRxInstance!.send(event).subscribe({
+        rxNostr.send(event, options).subscribe({
           next: (packet) => {
             debugLog(`Relay response from ${packet.from}:`, packet);
             if (packet.ok) {
-              debugLog(`Profile update sent successfully to ${packet.from}`);
               successCount++;
-
               if (successCount === 1) {
-                // Update local metadata cache
-                setUserMetadata((current) => {
-                  const updated = new Map(current);
-                  if (user) {
-                    updated.set(user.publicKey, {
-                      ...metadata,
-                    });
-                  }
-                  return updated;
-                });
-
-                // Update localStorage cache
-                if (user) {
-                  storage.updateMetadata(user.publicKey, metadata);
-                }
-
-                resolve();
+                resolve(event);
               }
             } else {
-              debugLog(`Failed to send profile update to ${packet.from}`);
+              debugLog(`Failed to send event to ${packet.from}`);
               failureCount++;
             }
 
             if (successCount + failureCount === totalRelays) {
-              debugLog(`Profile update completed. Success: ${successCount}, Failed: ${failureCount}`);
+              debugLog(`Event sending completed. Success: ${successCount}, Failed: ${failureCount}`);
               if (successCount === 0) {
                 reject(new Error("Failed to send to all relays"));
               }
             }
           },
           error: (error) => {
-            debugLog("Error sending profile update:", error);
+            debugLog("Error sending event:", error);
             reject(error);
           },
         });
       });
     },
-    onSuccess: () => {
-      toast({
-        title: "成功",
-        description: "プロフィールを更新しました",
-      });
+    [rxNostr],
+  );
+
+  // 現在のサインインで任意のイベントに署名する（created_atは呼び出し側で指定）
+  const signEvent = useCallback(
+    async (params: { kind: number; content: string; tags: string[][]; created_at: number }) => {
+      if (!user || !signerRef.current) {
+        throw new Error("Not ready to sign");
+      }
+      return (await signerRef.current.signEvent(params)) as NostrEvent;
     },
-    onError: (error) => {
-      console.error("Error updating profile:", error);
-      toast({
-        title: "エラー",
-        description: "プロフィールの更新に失敗しました",
-        variant: "destructive",
+    [user],
+  );
+
+  // 自分が公開したイベントを購読する（タイムラインへの即時反映用）
+  const onPublishedEvent = useCallback((listener: (event: NostrEvent) => void) => {
+    publishedListeners.current.add(listener);
+    return () => {
+      publishedListeners.current.delete(listener);
+    };
+  }, []);
+
+  // 送信前に署名してイベントIDを確定させてから送信する
+  const publishEvent = useCallback(
+    async (params: { kind: number; content: string; tags: string[][] }) => {
+      const event = await signEvent({
+        ...params,
+        created_at: Math.floor(Date.now() / 1000),
       });
+      await sendSignedEvent(event);
+      storeEvents([event as SignedEvent]);
+      publishedListeners.current.forEach((listener) => listener(event));
+      return event;
     },
-  });
+    [signEvent, sendSignedEvent],
+  );
 
-  // Nostrのkind定義
-  const KIND = {
-    METADATA: 0,
-    TEXT_NOTE: 1,
-    CONTACT_LIST: 3,
-  } as const;
-
-  // フォロー状態の管理
-  interface Contact {
-    pubkey: string;
-    relayUrl?: string;
-    petname?: string;
-  }
+  // リレー設定を保存し、rx-nostrインスタンスへ即時反映する
+  const updateRelays = useCallback(
+    async (newRelays: Relay[]) => {
+      debugLog("Updating relays:", newRelays);
+      saveRelays(user?.publicKey, newRelays);
+      relaysRef.current = newRelays;
+      defaultReadRelayUrls = getReadRelayUrls(newRelays);
+      rxNostr?.setDefaultRelays(newRelays);
+      setRelays(newRelays);
+
+      // サーバーのアカウントではNIP-05（/.well-known/nostr.json）のリレーとして返すため同期する
+      if (user?.type === "server") {
+        await apiRequest("POST", "/api/relays", { relays: newRelays }).catch((error) => {
+          debugLog("Failed to sync relays to server:", error);
+          toast({
+            title: "エラー",
+            description: "サーバーへのリレー設定の保存に失敗しました",
+            variant: "destructive",
+          });
+        });
+      }
+    },
+    [user, rxNostr, toast],
+  );
+
+  // サーバーのアカウントでは、ログイン時点のリレー設定もサーバーへ反映しておく
+  useEffect(() => {
+    if (user?.type !== "server" || !rxNostr || !hasStoredRelays(user.publicKey)) return;
+    if (relaysSyncedFor.current === user.publicKey) return;
+    relaysSyncedFor.current = user.publicKey;
+
+    apiRequest("POST", "/api/relays", { relays: relaysRef.current }).catch((error) => {
+      debugLog("Failed to sync relays to server:", error);
+    });
+  }, [user, rxNostr]);
+
+  // NIP-65: ログイン時、ローカル設定がなければ公開済みのリレーリストを取り込む
+  useEffect(() => {
+    if (!user || !rxNostr) return;
+    if (relayListImportedFor.current === user.publicKey || hasStoredRelays(user.publicKey)) return;
+    relayListImportedFor.current = user.publicKey;
+
+    getAuthorRelays(user.publicKey).then((importedRelays) => {
+      if (importedRelays.length === 0) return;
+      debugLog(`Importing ${importedRelays.length} relays from kind 10002`);
+      updateRelays(importedRelays);
+      toast({
+        title: "リレー設定",
+        description: "公開されているリレーリストを読み込みました",
+      });
+    });
+  }, [user, rxNostr, getAuthorRelays, updateRelays, toast]);
 
-  // フォロー状態の取得
+  // フォロー状態の取得（最新のkind 3を採用）
   const loadFollowingList = useCallback(async () => {
-    if (!user || !globalRxInstance) return;
+    if (!user || !rxNostr) return;
 
     debugLog("Loading following list");
-    const filter = {
+    // イベントストアに保存済みのコンタクトリストで先に表示し、リレーの結果で更新する
+    const stored = await getReplaceableEvent(KIND.CONTACT_LIST, user.publicKey).catch(() => undefined);
+    if (stored) {
+      setFollowing(new Set(getFollowedPubkeys(stored.tags)));
+      setIsFollowingLoaded(true);
+    }
+
+    const events = await fetchEvents({
       kinds: [KIND.CONTACT_LIST],
       authors: [user.publicKey],
-    };
+    });
+    const latest = events.sort((a, b) => b.created_at - a.created_at)[0];
+    if (latest && (!stored || latest.created_at >= stored.created_at)) {
+      setFollowing(new Set(getFollowedPubkeys(latest.tags)));
+    } else if (!latest) {
+      debugLog("No contact list found");
+    }
+    setIsFollowingLoaded(true);
+  }, [user, rxNostr, fetchEvents]);
+
+  // 設定済みの全リレー（読み取り・書き込み）から最新のkind 3を取得する
+  // どのリレーからもEOSEが届かない、またはタイムアウトした場合はokがfalseになる
+  const fetchLatestContactList = useCallback(async (): Promise<{
+    event: ContactListEvent | null;
+    ok: boolean;
+  }> => {
+    if (!user || !rxNostr) {
+      throw new Error("Nostr client not ready");
+    }
 
-    return new Promise<void>((resolve, reject) => {
-      const rxReq = createRxForwardReq();
-      let hasReceivedList = false;
+    const relayUrls = Array.from(new Set(relaysRef.current.map((relay) => relay.url)));
+    const stored = await getReplaceableEvent(KIND.CONTACT_LIST, user.publicKey).catch(() => undefined);
 
-      const subscription = globalRxInstance.use(rxReq).subscribe({
+    return new Promise((resolve) => {
+      let latest: ContactListEvent | null = stored ?? null;
+      const rxReq = createRxBackwardReq(`contact-list-${Date.now()}`);
+      const answeredRelays = new Set<string>();
+      let isCompleted = false;
+
+      const finish = (completed: boolean) => {
+        if (isCompleted) return;
+        isCompleted = true;
+        clearTimeout(timeoutId);
+        subscription.unsubscribe();
+        eoseSubscription.unsubscribe();
+        debugLog(`Contact list fetched from ${answeredRelays.size}/${relayUrls.length} relays`);
+        resolve({ event: latest, ok: completed && answeredRelays.size > 0 });
+      };
+
+      const timeoutId = setTimeout(() => finish(false), CONTACT_LIST_TIMEOUT);
+
+      // 応答したリレーをEOSEで判定する（イベントが0件でも応答とみなす）
+      const eoseSubscription = rxNostr.createAllMessageObservable().subscribe((packet) => {
+        if (packet.type === "EOSE" && packet.subId.startsWith(`${rxReq.rxReqId}:`)) {
+          answeredRelays.add(packet.from);
+        }
+      });
+
+      const subscription = rxNostr.use(rxReq, { on: { relays: relayUrls } }).subscribe({
         next: ({ event }) => {
-          if (hasReceivedList) return;
-
-          try {
-            const contacts: Contact[] = event.tags
-              .filter(tag => tag[0] === 'p')
-              .map(tag => ({
-                pubkey: tag[1],
-                relayUrl: tag[2],
-                petname: tag[3],
-              }));
-
-            setFollowing(new Set(contacts.map(contact => contact.pubkey)));
-            hasReceivedList = true;
-            resolve();
-          } catch (error) {
-            debugLog("Error processing contact list:", error);
-            reject(error);
+          if (!latest || event.created_at > latest.created_at) {
+            latest = event;
           }
+          storeEvents([event as SignedEvent]);
         },
         error: (error) => {
-          debugLog("Error loading following list:", error);
-          reject(error);
-        },
-        complete: () => {
-          if (!hasReceivedList) {
-            debugLog("No contact list found");
-            resolve();
-          }
+          debugLog("Error fetching contact list:", error);
+          finish(false);
         },
+        complete: () => finish(true),
       });
 
-      rxReq.emit(filter);
-
-      return () => subscription.unsubscribe();
+      rxReq.emit({ kinds: [KIND.CONTACT_LIST], authors: [user.publicKey] });
+      rxReq.over();
     });
-  }, [user, debugLog]);
+  }, [user, rxNostr]);
 
-  // フォロー/アンフォロー機能
-  const toggleFollowMutation = useMutation({
-    mutationFn: async (targetPubkey: string) => {
-      if (!user || !globalRxInstance) {
+  // NIP-02: 最新のコンタクトリストを取得し直してから変更を加えて公開する
+  // 取得に失敗した場合は既存のリストを上書きしないよう公開を中止する
+  const updateContactList = useCallback(
+    async (build: (latest: ContactListEvent | null) => { tags: string[][]; content: string }) => {
+      if (!user) {
         throw new Error("Not ready to update follows");
       }
 
-      const isFollowing = following.has(targetPubkey);
-      const newFollowList = isFollowing
-        ? Array.from(following).filter(key => key !== targetPubkey)
-        : [...Array.from(following), targetPubkey];
-
-      const tags = newFollowList.map(pubkey => ['p', pubkey]);
-
-      const event = {
-        kind: KIND.CONTACT_LIST,
-        content: '',
-        tags,
-        created_at: Math.floor(Date.now() / 1000),
-      };
-
-      debugLog(`${isFollowing ? 'Unfollowing' : 'Following'} ${targetPubkey}`);
-
-      return new Promise<void>((resolve, reject) => {
-        let successCount = 0;
-        let failureCount = 0;
-        const totalRelays = DEFAULT_RELAYS.length;
-
-        globalRxInstance!.send(event).subscribe({
-          next: (packet) => {
-            debugLog(`Relay response from ${packet.from}:`, packet);
-            if (packet.ok) {
-              debugLog(`Follow update sent successfully to ${packet.from}`);
-              successCount++;
-
-              if (successCount === 1) {
-                setFollowing(new Set(newFollowList));
-                resolve();
-              }
-            } else {
-              debugLog(`Failed to send follow update to ${packet.from}`);
-              failureCount++;
-            }
+      const { event: latest, ok } = await fetchLatestContactList();
+      if (!ok) {
+        throw new ContactListFetchError();
+      }
 
-            if (successCount + failureCount === totalRelays) {
-              debugLog(`Follow update completed. Success: ${successCount}, Failed: ${failureCount}`);
-              if (successCount === 0) {
-                reject(new Error("Failed to send to all relays"));
-              }
-            }
-          },
-          error: (error) => {
-            debugLog("Error sending follow update:", error);
-            reject(error);
-          },
-        });
-      });
+      const { tags, content } = build(latest);
+      // 置き換える前の版を履歴に残しておく
+      if (latest) {
+        saveContactListSnapshot(user.publicKey, latest);
+      }
+      const event = await publishEvent({ kind: KIND.CONTACT_LIST, content, tags });
+      setFollowing(new Set(getFollowedPubkeys(event.tags)));
+      return event;
     },
-    onSuccess: () => {
-      toast({
-        title: "成功",
-        description: "フォロー状態を更新しました",
-      });
+    [user, fetchLatestContactList, publishEvent],
+  );
+
+  // 指定したユーザーのフォロー一覧（最新のkind 3のpタグ）
+  const fetchFollowingList = useCallback(
+    async (pubkey: string, relayHints: string[] = []): Promise<string[]> => {
+      const stored = await getReplaceableEvent(KIND.CONTACT_LIST, pubkey).catch(() => undefined);
+      const events = await fetchEvents(
+        { kinds: [KIND.CONTACT_LIST], authors: [pubkey] },
+        CONTACT_LIST_TIMEOUT,
+        await getOutboxOptions(pubkey, relayHints),
+      );
+      const latest = [...events, ...(stored ? [stored] : [])].sort(
+        (a, b) => b.created_at - a.created_at,
+      )[0];
+      return latest ? Array.from(new Set(getFollowedPubkeys(latest.tags))) : [];
     },
-    onError: (error) => {
-      console.error("Error updating follow status:", error);
-      toast({
-        title: "エラー",
-        description: "フォロー状態の更新に失敗しました",
-        variant: "destructive",
+    [fetchEvents, getOutboxOptions],
+  );
+
+  // 指定したユーザーをpタグに含むkind 3の著者（新しい順）
+  // oldestAtは次のページを取得する際のuntilに使う
+  const fetchFollowers = useCallback(
+    async (
+      pubkey: string,
+      { until, limit }: { until?: number; limit: number },
+    ): Promise<{ pubkeys: string[]; oldestAt?: number; eventCount: number }> => {
+      const events = await fetchEvents({
+        kinds: [KIND.CONTACT_LIST],
+        "#p": [pubkey],
+        limit,
+        ...(until && { until }),
       });
+      const sorted = events.sort((a, b) => b.created_at - a.created_at);
+      return {
+        pubkeys: Array.from(new Set(sorted.map((event) => event.pubkey!))),
+        oldestAt: sorted[sorted.length - 1]?.created_at,
+        eventCount: sorted.length,
+      };
     },
-  });
+    [fetchEvents],
+  );
+
+  // NIP-45: COUNTに対応した読み取りリレーにフォロワー数を問い合わせる
+  // 対応リレーがない、またはすべて失敗した場合はnull
+  const countFollowers = useCallback(async (pubkey: string): Promise<number | null> => {
+    const readRelays = getReadRelayUrls(relaysRef.current);
+    const supported = await Promise.all(
+      readRelays.map(async (url) => ((await supportsCount(url)) ? url : null)),
+    );
+    const counts = await Promise.all(
+      supported
+        .filter((url): url is string => !!url)
+        .map((url) => countEvents(url, { kinds: [KIND.CONTACT_LIST], "#p": [pubkey] })),
+    );
+    const results = counts.filter((count): count is number => count !== null);
+    debugLog(`Follower count for ${pubkey} from ${results.length} relays:`, results);
+    // リレー間で同じフォロワーが重複するため合計せず、最大値を採用する
+    return results.length > 0 ? Math.max(...results) : null;
+  }, []);
 
-  // useEffect hook for loading following list
   useEffect(() => {
-    if (user && initialized && isSubscriptionReady) {
-      loadFollowingList().catch(error => {
-        console.error("Error loading following list:", error);
-      });
-    }
-  }, [user, initialized, isSubscriptionReady, loadFollowingList]);
-
-  interface FetchUserPostsOptions {
-    pubkey: string;
-    since?: number;
-    until?: number;
-    limit?: number;
-    search?: string;
-  }
+    loadFollowingList().catch(error => {
+      console.error("Error loading following list:", error);
+    });
+  }, [loadFollowingList]);
 
-  // Add to the useNostr hook
+  // ユーザーの投稿を取得
   const fetchUserPosts = useCallback(async ({
     pubkey,
     since,
     until,
     limit = 30,
-    search
+    search,
+    relays: relayHints,
   }: FetchUserPostsOptions): Promise<Post[]> => {
-    if (!globalRxInstance || !subscriptionReadyRef.current) {
+    if (!rxNostr) {
       throw new Error("Nostr client not ready");
     }
 
@@ -885,6 +1309,9 @@ export function useNostr() {
 
     debugLog('Using filter:', filter);
 
+    // NIP-65: 投稿者の書き込みリレーから取得する
+    const useOptions = await getOutboxOptions(pubkey, relayHints);
+
     return new Promise<Post[]>((resolve, reject) => {
       const posts: Post[] = [];
       const rxReq = createRxForwardReq();
@@ -900,8 +1327,8 @@ export function useNostr() {
         }
       }, 15000); // 15秒のタイムアウト
 
-      const subscription = globalRxInstance!.use(rxReq).subscribe({
-        next: ({ event }: { event: NostrEvent }) => {
+      const subscription = rxNostr.use(rxReq, useOptions).subscribe({
+        next: ({ event, from }) => {
           if (isCompleted) return;
 
           debugLog(`Received event: ${event.id}, created_at: ${event.created_at}`);
@@ -917,19 +1344,8 @@ export function useNostr() {
           }
 
           receivedCount++;
-          const post: Post = {
-            id: 0,
-            userId: 0,
-            content: event.content,
-            createdAt: new Date(event.created_at * 1000).toISOString(),
-            nostrEventId: event.id,
-            pubkey: event.pubkey!,
-            signature: event.sig,
-            metadata: {
-              tags: event.tags || [],
-              relays: DEFAULT_RELAYS,
-            },
-          };
+          storeEvents([event as SignedEvent]);
+          const post = eventToPost(event as NostrEvent, [from]);
           posts.push(post);
           debugLog(`Added post ${event.id}, total posts: ${posts.length}`);
         },
@@ -947,7 +1363,7 @@ export function useNostr() {
             isCompleted = true;
             clearTimeout(timeoutId);
             // タイムスタンプでソート
-            posts.sort((a, b) => 
+            posts.sort((a, b) =>
               new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
             );
             resolve(posts);
@@ -966,27 +1382,596 @@ export function useNostr() {
         }
       };
     });
-  }, [debugLog]);
+  }, [rxNostr, getOutboxOptions]);
+
+  // イベントストアに保存済みのユーザーの投稿を新しい順に取得
+  const loadCachedUserPosts = useCallback(
+    async (pubkey: string, limit = 30): Promise<Post[]> => {
+      const events = await queryEvents({ kinds: [KIND.TEXT_NOTE], authors: [pubkey], limit });
+      return events.map((event) => eventToPost(event));
+    },
+    [],
+  );
+
+  // NIP-10: 対象ノートからスレッドを組み立てる（取得元はリレーまたはイベントストア）
+  const buildThread = useCallback(
+    async (
+      noteId: string,
+      getEventsByIds: (ids: string[]) => Promise<NostrEvent[]>,
+      getReplies: (ids: string[]) => Promise<NostrEvent[]>,
+    ): Promise<ThreadData> => {
+      const [target] = await getEventsByIds([noteId]);
+      if (!target) {
+        return { root: null, ancestors: [], target: null, replies: [] };
+      }
+
+      const { root: rootPointer } = nip10.parse(target);
+      const rootId = rootPointer?.id ?? getReplyParentId(target.tags) ?? target.id!;
+
+      const [rootEvents, replyEvents] = await Promise.all([
+        rootId === target.id ? Promise.resolve([target]) : getEventsByIds([rootId]),
+        getReplies(Array.from(new Set([rootId, target.id!]))),
+      ]);
+
+      const eventsById = new Map<string, NostrEvent>();
+      [...rootEvents, ...replyEvents, target].forEach((event) => eventsById.set(event.id!, event));
+
+      // 返信チェーンを遡って祖先を集める（取得済みでないものは個別に取得）
+      const ancestors: NostrEvent[] = [];
+      let parentId = getReplyParentId(target.tags);
+      while (parentId && parentId !== rootId && ancestors.length < 50) {
+        let parent = eventsById.get(parentId);
+        if (!parent) {
+          [parent] = await getEventsByIds([parentId]);
+          if (!parent) break;
+          eventsById.set(parent.id!, parent);
+        }
+        ancestors.unshift(parent);
+        parentId = getReplyParentId(parent.tags);
+      }
+
+      const ancestorIds = new Set(ancestors.map((event) => event.id));
+      const root = eventsById.get(rootId);
+      const replies = Array.from(eventsById.values())
+        .filter((event) => event.id !== rootId && event.id !== target.id && !ancestorIds.has(event.id))
+        .sort((a, b) => a.created_at - b.created_at);
+
+      debugLog(`Thread built: ancestors=${ancestors.length}, replies=${replies.length}`);
+      return {
+        root: root ? eventToPost(root) : null,
+        ancestors: ancestors.map((event) => eventToPost(event)),
+        target: eventToPost(target),
+        replies: replies.map((event) => eventToPost(event)),
+      };
+    },
+    [],
+  );
+
+  // NIP-10: 指定ノートを含むスレッド全体をリレーから取得
+  const fetchThread = useCallback(
+    async (noteId: string, relayHints: string[] = []): Promise<ThreadData> => {
+      debugLog(`Fetching thread for ${noteId}`);
+      // NIP-19のneventに含まれるリレーヒントも問い合わせ先に加える
+      const hintOptions: RxNostrUseOptions | undefined =
+        relayHints.length > 0 ? { on: { relays: relayHints, defaultReadRelays: true } } : undefined;
+      return buildThread(
+        noteId,
+        (ids) => fetchEvents({ ids }, 15000, hintOptions),
+        (ids) => fetchEvents({ kinds: [KIND.TEXT_NOTE], "#e": ids }, 15000, hintOptions),
+      );
+    },
+    [fetchEvents, buildThread],
+  );
+
+  // イベントストアに保存済みのイベントだけでスレッドを組み立てる
+  const loadCachedThread = useCallback(
+    async (noteId: string): Promise<ThreadData> => {
+      return buildThread(
+        noteId,
+        (ids) => getEventsByIds(ids),
+        async (ids) => {
+          const results = await Promise.all(
+            ids.map((id) => queryEvents({ kinds: [KIND.TEXT_NOTE], tag: ["e", id], limit: 500 })),
+          );
+          return results.flat();
+        },
+      );
+    },
+    [buildThread],
+  );
+
+  // IDを指定して投稿を1件取得
+  const fetchPost = useCallback(
+    async (eventId: string, relayHints: string[] = []): Promise<Post | null> => {
+      const options: RxNostrUseOptions | undefined =
+        relayHints.length > 0 ? { on: { relays: relayHints, defaultReadRelays: true } } : undefined;
+      // イベントは不変なので、保存済みならリレーに問い合わせない
+      const [stored] = await getEventsByIds([eventId]);
+      if (stored) return eventToPost(stored);
+      const [event] = await fetchEvents({ ids: [eventId] }, 10000, options);
+      return event ? eventToPost(event) : null;
+    },
+    [fetchEvents],
+  );
+
+  // ハッシュタグ（tタグ）を含む投稿を取得
+  const fetchHashtagPosts = useCallback(
+    async ({ tag, until, limit = 30 }: { tag: string; until?: number; limit?: number }): Promise<Post[]> => {
+      debugLog(`Fetching posts for hashtag #${tag}, until=${until}`);
+      const events = await fetchEvents({
+        kinds: [KIND.TEXT_NOTE],
+        "#t": [tag.toLowerCase()],
+        limit,
+        ...(until && { until }),
+      });
+      return events
+        .sort((a, b) => b.created_at - a.created_at)
+        .map((event) => eventToPost(event));
+    },
+    [fetchEvents],
+  );
+
+  // NIP-18: リポスト対象の投稿を取得（リレーにない場合は埋め込みイベントを使用）
+  const fetchRepostedPost = useCallback(
+    async (repost: Post): Promise<Post | null> => {
+      const targetId = getRepostedEventId(repost);
+      if (!targetId) return null;
+
+      const post = await fetchPost(targetId).catch((error) => {
+        debugLog(`Error fetching reposted event ${targetId}:`, error);
+        return null;
+      });
+      if (post) return post;
+
+      const embedded = getEmbeddedRepostEvent(repost);
+      return embedded ? eventToPost(embedded) : null;
+    },
+    [fetchPost],
+  );
+
+
+  return useMemo(
+    () => ({
+      isReady: !!rxNostr,
+      relays,
+      following,
+      isFollowingLoaded,
+      updateContactList,
+      fetchFollowingList,
+      fetchFollowers,
+      countFollowers,
+      metadataStore,
+      loadPostMetadata,
+      setOwnMetadata,
+      fetchProfileEvent,
+      watchReactions: reactionHub.watch,
+      dispatchReaction: reactionHub.dispatch,
+      fetchEvents,
+      subscribeEvents,
+      subscribeConnectionState,
+      getAuthorRelays,
+      signEvent,
+      sendSignedEvent,
+      publishEvent,
+      onPublishedEvent,
+      updateRelays,
+      fetchUserPosts,
+      loadCachedUserPosts,
+      fetchThread,
+      loadCachedThread,
+      fetchPost,
+      fetchRepostedPost,
+      fetchHashtagPosts,
+    }),
+    [
+      rxNostr,
+      relays,
+      following,
+      isFollowingLoaded,
+      updateContactList,
+      fetchFollowingList,
+      fetchFollowers,
+      countFollowers,
+      metadataStore,
+      loadPostMetadata,
+      setOwnMetadata,
+      fetchProfileEvent,
+      reactionHub,
+      fetchEvents,
+      subscribeEvents,
+      subscribeConnectionState,
+      getAuthorRelays,
+      signEvent,
+      sendSignedEvent,
+      publishEvent,
+      onPublishedEvent,
+      updateRelays,
+      fetchUserPosts,
+      loadCachedUserPosts,
+      fetchThread,
+      loadCachedThread,
+      fetchPost,
+      fetchRepostedPost,
+      fetchHashtagPosts,
+    ],
+  );
+}
+
+type NostrContextType = ReturnType<typeof useNostrState>;
+
+const NostrContext = createContext<NostrContextType | null>(null);
+
+export function NostrProvider({ children }: { children: ReactNode }) {
+  const value = useNostrState();
+  return <NostrContext.Provider value={value}>{children}</NostrContext.Provider>;
+}
+
+// 共有クライアントを直接使う（useTimeline等、useNostrの上に機能を組み立てるフック用）
+export function useNostrClient() {
+  const context = useContext(NostrContext);
+  if (!context) {
+    throw new Error("useNostrClient must be used within a NostrProvider");
+  }
+  return context;
+}
+
+// 指定した著者のメタデータのみを購読する（他の著者の更新では再描画しない）
+export function useUserMetadata(pubkey: string | undefined): UserMetadata | undefined {
+  const { metadataStore } = useNostrClient();
+  return useSyncExternalStore(metadataStore.subscribe, () =>
+    pubkey ? metadataStore.get(pubkey) : undefined,
+  );
+}
+
+export function useNostr() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const client = useNostrClient();
+  const { publishEvent, following, updateContactList, dispatchReaction, setOwnMetadata } = client;
+
+  // NIP-65: リレー設定をkind 10002として公開
+  const publishRelayListMutation = useMutation({
+    mutationFn: async (newRelays: Relay[]) => {
+      if (!user) {
+        throw new Error("Not ready to publish relay list");
+      }
+
+      debugLog("Publishing relay list:", newRelays);
+      await publishEvent({
+        kind: KIND.RELAY_LIST,
+        content: "",
+        tags: relayListToTags(newRelays),
+      });
+      relayListCache.set(user.publicKey, { relays: newRelays, timestamp: Date.now() });
+    },
+    onError: (error) => {
+      console.error("Error publishing relay list:", error);
+    },
+  });
+
+  // Create post mutation
+  const createPostMutation = useMutation({
+    mutationFn: async (content: string) => {
+      debugLog("Sending signed post with content:", content);
+      const event = await publishEvent({ kind: 1, content, tags: [] });
+      return eventToPost(event, getWriteRelayUrls(client.relays));
+    },
+    onSuccess: (post) => {
+      if (post.nostrEventId && post.signature) {
+        toast({
+          title: "成功",
+          description: "投稿を送信しました",
+        });
+      }
+    },
+    onError: (error) => {
+      console.error("Error creating post:", error);
+      toast({
+        title: "エラー",
+        description: "投稿に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // NIP-10: 返信の作成
+  const createReplyMutation = useMutation({
+    mutationFn: async ({ content, parent }: { content: string; parent: Post }) => {
+      if (!user) {
+        throw new Error("Not ready to reply");
+      }
+
+      debugLog(`Replying to ${parent.nostrEventId}`);
+      const event = await publishEvent({
+        kind: 1,
+        content,
+        tags: buildReplyTags(parent, user.publicKey),
+      });
+      return eventToPost(event);
+    },
+    onSuccess: () => {
+      toast({
+        title: "成功",
+        description: "返信を送信しました",
+      });
+    },
+    onError: (error) => {
+      console.error("Error creating reply:", error);
+      toast({
+        title: "エラー",
+        description: "返信に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // kind 0の更新（contentには未知の項目を含む全体を渡す）
+  const updateProfileMutation = useMutation({
+    mutationFn: async ({
+      content,
+      tags = [],
+    }: {
+      content: Record<string, unknown>;
+      tags?: string[][];
+    }) => {
+      if (!user) {
+        throw new Error("Not ready to update profile");
+      }
+
+      debugLog("Sending signed profile update with content:", content);
+      const event = await publishEvent({
+        kind: KIND.METADATA,
+        content: JSON.stringify(content),
+        tags,
+      });
+
+      // 共有ストアとキャッシュを即時更新する
+      const metadata = parseMetadata(event);
+      if (metadata) setOwnMetadata(user.publicKey, metadata);
+    },
+    onSuccess: () => {
+      toast({
+        title: "成功",
+        description: "プロフィールを更新しました",
+      });
+    },
+    onError: (error) => {
+      console.error("Error updating profile:", error);
+      toast({
+        title: "エラー",
+        description: "プロフィールの更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // NIP-25: リアクションの送信（カスタム絵文字はNIP-30のemojiタグを付与）
+  const reactMutation = useMutation({
+    mutationFn: async ({
+      post,
+      content = "+",
+      emojiUrl,
+    }: {
+      post: Post;
+      content?: string;
+      emojiUrl?: string;
+    }) => {
+      const tags = [
+        ["e", post.nostrEventId, post.metadata?.relays?.[0] || ""],
+        ["p", post.pubkey],
+        ["k", String(KIND.TEXT_NOTE)],
+      ];
+      const shortcode = content.match(/^:([\w-]+):$/)?.[1];
+      if (shortcode && emojiUrl) {
+        tags.push(["emoji", shortcode, emojiUrl]);
+      }
+
+      debugLog(`Reacting to ${post.nostrEventId} with ${content}`);
+      const event = await publishEvent({ kind: KIND.REACTION, content, tags });
+      dispatchReaction(event);
+      return event;
+    },
+    onError: (error) => {
+      console.error("Error sending reaction:", error);
+      toast({
+        title: "エラー",
+        description: "リアクションの送信に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // NIP-09: 自分のリアクションを削除リクエストで取り消す（同じ内容のリアクションはまとめて削除する）
+  const retractReactionMutation = useMutation({
+    mutationFn: async (reactionIds: string[]) => {
+      debugLog(`Retracting reactions ${reactionIds.join(", ")}`);
+      const event = await publishEvent({
+        kind: KIND.DELETION,
+        content: "",
+        tags: [
+          ...reactionIds.map((id) => ["e", id]),
+          ["k", String(KIND.REACTION)],
+        ],
+      });
+      dispatchReaction(event);
+      return reactionIds;
+    },
+    onError: (error) => {
+      console.error("Error retracting reaction:", error);
+      toast({
+        title: "エラー",
+        description: "リアクションの取り消しに失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // NIP-18: リポスト（kind 6）
+  const repostMutation = useMutation({
+    mutationFn: async (post: Post) => {
+      const relay = post.metadata?.relays?.[0] || "";
+      debugLog(`Reposting ${post.nostrEventId}`);
+      const event = await publishEvent({
+        kind: KIND.REPOST,
+        content: JSON.stringify(postToEvent(post)),
+        tags: [
+          ["e", post.nostrEventId, relay],
+          ["p", post.pubkey],
+        ],
+      });
+      return eventToPost(event);
+    },
+    onSuccess: () => {
+      toast({
+        title: "成功",
+        description: "リポストしました",
+      });
+    },
+    onError: (error) => {
+      console.error("Error reposting:", error);
+      toast({
+        title: "エラー",
+        description: "リポストに失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // NIP-18: 引用投稿（qタグとnostr:neventで参照）
+  const quotePostMutation = useMutation({
+    mutationFn: async ({ content, quoted }: { content: string; quoted: Post }) => {
+      const relay = quoted.metadata?.relays?.[0] || "";
+      const nevent = encodeNevent({
+        id: quoted.nostrEventId,
+        relays: relay ? [relay] : [],
+        author: quoted.pubkey,
+        kind: quoted.metadata?.kind ?? KIND.TEXT_NOTE,
+      });
+
+      debugLog(`Quoting ${quoted.nostrEventId}`);
+      const event = await publishEvent({
+        kind: KIND.TEXT_NOTE,
+        content: `${content}\n\nnostr:${nevent}`,
+        tags: [
+          ["q", quoted.nostrEventId, relay, quoted.pubkey],
+          ["p", quoted.pubkey],
+        ],
+      });
+      return eventToPost(event);
+    },
+    onSuccess: () => {
+      toast({
+        title: "成功",
+        description: "引用投稿を送信しました",
+      });
+    },
+    onError: (error) => {
+      console.error("Error creating quote post:", error);
+      toast({
+        title: "エラー",
+        description: "引用投稿に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // フォロー/アンフォロー機能
+  const toggleFollowMutation = useMutation({
+    mutationFn: async (targetPubkey: string) => {
+      const isFollowing = following.has(targetPubkey);
+      debugLog(`${isFollowing ? 'Unfollowing' : 'Following'} ${targetPubkey}`);
+      // ローカルの状態ではなく、リレー上の最新のリストに対して追加・削除する
+      await updateContactList((latest) => ({
+        tags: isFollowing
+          ? removeContact(latest?.tags ?? [], targetPubkey)
+          : addContact(latest?.tags ?? [], targetPubkey),
+        content: latest?.content ?? "",
+      }));
+    },
+    onSuccess: () => {
+      toast({
+        title: "成功",
+        description: "フォロー状態を更新しました",
+      });
+    },
+    onError: (error) => {
+      console.error("Error updating follow status:", error);
+      toast({
+        title: "エラー",
+        description:
+          error instanceof ContactListFetchError
+            ? "最新のフォローリストを取得できなかったため、更新を中止しました"
+            : "フォロー状態の更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
 
+  // 履歴に保存したコンタクトリストを復元する（現在のリストも履歴に残る）
+  const restoreContactListMutation = useMutation({
+    mutationFn: async (snapshot: ContactListSnapshot) => {
+      debugLog(`Restoring contact list ${snapshot.event.id}`);
+      await updateContactList(() => ({
+        tags: snapshot.event.tags,
+        content: snapshot.event.content,
+      }));
+    },
+    onSuccess: () => {
+      toast({
+        title: "成功",
+        description: "フォローリストを復元しました",
+      });
+    },
+    onError: (error) => {
+      console.error("Error restoring contact list:", error);
+      toast({
+        title: "エラー",
+        description:
+          error instanceof ContactListFetchError
+            ? "最新のフォローリストを取得できなかったため、復元を中止しました"
+            : "フォローリストの復元に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
 
   return {
-    posts: Array.from(posts.values()).sort(
-      (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-    ),
-    isLoadingPosts: !initialized || !isSubscriptionReady,
-    getUserMetadata: useCallback(
-      (pubkey: string) => userMetadata.get(pubkey),
-      [userMetadata],
-    ),
-    loadPostMetadata,
+    isLoadingPosts: !client.isReady,
+    loadPostMetadata: client.loadPostMetadata,
     createPost: createPostMutation.mutate,
     isCreatingPost: createPostMutation.isPending,
+    createReply: createReplyMutation.mutate,
+    isCreatingReply: createReplyMutation.isPending,
+    watchReactions: client.watchReactions,
+    react: reactMutation.mutate,
+    retractReaction: retractReactionMutation.mutate,
+    isReacting: reactMutation.isPending || retractReactionMutation.isPending,
+    repost: repostMutation.mutate,
+    isReposting: repostMutation.isPending,
+    createQuotePost: quotePostMutation.mutate,
+    isCreatingQuotePost: quotePostMutation.isPending,
     updateProfile: updateProfileMutation.mutate,
     isUpdatingProfile: updateProfileMutation.isPending,
     isFollowing: useCallback((pubkey: string) => following.has(pubkey), [following]),
+    followingCount: following.size,
     toggleFollow: toggleFollowMutation.mutate,
     isTogglingFollow: toggleFollowMutation.isPending,
-    fetchUserPosts,
+    restoreContactList: restoreContactListMutation.mutate,
+    isRestoringContactList: restoreContactListMutation.isPending,
+    fetchUserPosts: client.fetchUserPosts,
+    loadCachedUserPosts: client.loadCachedUserPosts,
+    fetchThread: client.fetchThread,
+    loadCachedThread: client.loadCachedThread,
+    fetchPost: client.fetchPost,
+    fetchRepostedPost: client.fetchRepostedPost,
+    fetchHashtagPosts: client.fetchHashtagPosts,
+    relays: client.relays,
+    updateRelays: client.updateRelays,
+    publishRelayList: publishRelayListMutation.mutateAsync,
+    fetchEvents: client.fetchEvents,
+    subscribeEvents: client.subscribeEvents,
+    getAuthorRelays: client.getAuthorRelays,
+    signEvent: client.signEvent,
+    sendSignedEvent: client.sendSignedEvent,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "./use-auth";
+import { useNostr, getReplyParentId, KIND, type NostrEvent } from "./use-nostr";
+import {
+  emitChange,
+  notificationStore,
+  resetNotificationStore,
+  syncNotificationSubscription,
+  type NostrNotification,
+  type NotificationType,
+} from "@/lib/notification-store";
+import { parseZapReceipt } from "@/lib/zap";
+
+export type { NostrNotification, NotificationType };
+
+const LAST_SEEN_KEY_PREFIX = "nostr_notifications_seen:";
+const INITIAL_LIMIT = 200;
+
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  targetId?: string;
+  notifications: NostrNotification[];
+  latestAt: number;
+}
+
+function loadLastSeen(pubkey: string): number {
+  return Number(localStorage.getItem(LAST_SEEN_KEY_PREFIX + pubkey)) || 0;
+}
+
+function getLastETag(tags: string[][]): string | undefined {
+  return tags.filter((tag) => tag[0] === "e").pop()?.[1];
+}
+
+function toNotification(event: NostrEvent, self: string): NostrNotification | null {
+  if (!event.id || !event.pubkey) return null;
+  const base = { id: event.id, createdAt: event.created_at, event };
+
+  switch (event.kind) {
+    case KIND.TEXT_NOTE: {
+      if (event.pubkey === self) return null;
+      const parentId = getReplyParentId(event.tags);
+      return parentId
+        ? { ...base, type: "reply", actor: event.pubkey, targetId: parentId }
+        : { ...base, type: "mention", actor: event.pubkey, targetId: event.id };
+    }
+    case KIND.REPOST:
+      if (event.pubkey === self) return null;
+      return {
+        ...base,
+        type: "repost",
+        actor: event.pubkey,
+        targetId: event.tags.find((tag) => tag[0] === "e")?.[1],
+      };
+    case KIND.REACTION:
+      if (event.pubkey === self) return null;
+      return { ...base, type: "reaction", actor: event.pubkey, targetId: getLastETag(event.tags) };
+    case KIND.ZAP_RECEIPT: {
+      // zapレシートはLNURLサーバーが署名するため、送信者はzapリクエストから取得する
+      const receipt = parseZapReceipt(event, self);
+      if (!receipt || receipt.sender === self) return null;
+      const { sender, amount } = receipt;
+      return {
+        ...base,
+        type: "zap",
+        actor: sender,
+        targetId: event.tags.find((tag) => tag[0] === "e")?.[1],
+        amount,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export function useNotifications() {
+  const { user } = useAuth();
+  const { isLoadingPosts: isClientLoading, subscribeEvents } = useNostr();
+  const [version, setVersion] = useState(notificationStore.version);
+
+  useEffect(() => {
+    const listener = () => setVersion(notificationStore.version);
+    notificationStore.listeners.add(listener);
+    return () => {
+      notificationStore.listeners.delete(listener);
+    };
+  }, []);
+
+  // 自分宛ての返信・メンション・リアクション・リポスト・zapを購読（アンマウントしても継続する）
+  useEffect(() => {
+    if (!user) {
+      if (notificationStore.pubkey) resetNotificationStore();
+      return;
+    }
+    if (isClientLoading) return;
+
+    syncNotificationSubscription({
+      pubkey: user.publicKey,
+      subscribeEvents,
+      filter: {
+        kinds: [KIND.TEXT_NOTE, KIND.REPOST, KIND.REACTION, KIND.ZAP_RECEIPT],
+        "#p": [user.publicKey],
+        limit: INITIAL_LIMIT,
+      },
+      toNotification,
+      loadLastSeen,
+    });
+  }, [user, isClientLoading, subscribeEvents]);
+
+  const lastSeen = notificationStore.lastSeen;
+  const unreadCount = useMemo(
+    () =>
+      Array.from(notificationStore.notifications.values()).filter((n) => n.createdAt > lastSeen)
+        .length,
+    [version, lastSeen],
+  );
+
+  // 種類と対象ノートごとにまとめ、新しい順に並べる
+  const groups = useMemo(() => {
+    const grouped = new Map<string, NotificationGroup>();
+    notificationStore.notifications.forEach((notification) => {
+      const key = `${notification.type}:${notification.targetId ?? "profile"}`;
+      const group = grouped.get(key) ?? {
+        key,
+        type: notification.type,
+        targetId: notification.targetId,
+        notifications: [],
+        latestAt: 0,
+      };
+      group.notifications.push(notification);
+      group.latestAt = Math.max(group.latestAt, notification.createdAt);
+      grouped.set(key, group);
+    });
+    grouped.forEach((group) => group.notifications.sort((a, b) => b.createdAt - a.createdAt));
+    return Array.from(grouped.values()).sort((a, b) => b.latestAt - a.latestAt);
+  }, [version]);
+
+  // 既読位置を現在時刻まで進める
+  const markAllRead = useCallback(() => {
+    const pubkey = notificationStore.pubkey;
+    if (!pubkey) return;
+    let latest = Math.floor(Date.now() / 1000);
+    notificationStore.notifications.forEach((n) => {
+      latest = Math.max(latest, n.createdAt);
+    });
+    if (latest === notificationStore.lastSeen) return;
+    notificationStore.lastSeen = latest;
+    localStorage.setItem(LAST_SEEN_KEY_PREFIX + pubkey, String(latest));
+    emitChange();
+  }, []);
+
+  return {
+    isLoading: isClientLoading,
+    groups,
+    unreadCount,
+    lastSeen,
+    markAllRead,
+  };
+}
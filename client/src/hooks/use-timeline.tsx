@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { LazyFilter, RxNostrUseOptions } from "rx-nostr";
+import type { NostrEvent as SignedEvent } from "nostr-tools";
+import { Post } from "@shared/schema";
+import { useAuth } from "./use-auth";
+import { useToast } from "./use-toast";
+import { useNostrClient, eventToPost, debugLog, KIND, type NostrEvent } from "./use-nostr";
+import { queryEvents, storeEvents } from "@/lib/event-store";
+import {
+  AUTHORS_CHUNK_SIZE,
+  chunkArray,
+  getTimelineKey,
+  type TimelineMode,
+} from "@/lib/timeline";
+
+const TIMELINE_PAGE_SIZE = 30;
+const TIMELINE_BACKFILL_LIMIT = 200;
+const TIMELINE_BACKFILL_DELAY = 1000;
+
+// ホームタイムラインの購読（フォロー中・グローバル・リレー単位）
+export function useTimeline(timeline: TimelineMode) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const {
+    isReady,
+    following,
+    isFollowingLoaded,
+    loadPostMetadata,
+    fetchEvents,
+    subscribeEvents,
+    subscribeConnectionState,
+    onPublishedEvent,
+  } = useNostrClient();
+  const [posts, setPosts] = useState<Map<string, Post>>(new Map());
+  const seenEvents = useRef<Set<string>>(new Set());
+  const timelineKey = getTimelineKey(timeline);
+  const followingKey = Array.from(following).sort().join(",");
+  // 受信済みの最新・最古のcreated_at（ギャップ補完とページングに使う）
+  const timelineLatestAt = useRef(0);
+  const timelineOldestAt = useRef(0);
+  // 描画範囲より上で破棄した投稿のcreated_at（昇順）。スクロールで戻ったときに再取得する
+  const [evictedAboveAt, setEvictedAboveAt] = useState<number[]>([]);
+  const isTimelineReady =
+    !!user && isReady && (timeline.type !== "following" || isFollowingLoaded);
+
+  // モードが変わったら表示中の投稿を破棄する
+  useEffect(() => {
+    seenEvents.current.clear();
+    timelineLatestAt.current = 0;
+    timelineOldestAt.current = 0;
+    setEvictedAboveAt([]);
+    setPosts(new Map());
+  }, [timelineKey]);
+
+  const addTimelineEvent = useCallback(
+    (event: NostrEvent, relays?: string[]) => {
+      // イベントIDが存在し、署名が存在する場合のみ投稿を追加
+      if (!event.id || !event.sig || seenEvents.current.has(event.id)) return;
+      seenEvents.current.add(event.id);
+      timelineLatestAt.current = Math.max(timelineLatestAt.current, event.created_at);
+      timelineOldestAt.current = timelineOldestAt.current
+        ? Math.min(timelineOldestAt.current, event.created_at)
+        : event.created_at;
+
+      const post = relays ? eventToPost(event, relays) : eventToPost(event);
+      setPosts((currentPosts) => {
+        const updatedPosts = new Map(currentPosts);
+        updatedPosts.set(event.id!, post);
+        return updatedPosts;
+      });
+      // キャッシュされたメタデータがあれば即座に適用し、なければ一括取得に回す
+      loadPostMetadata(event.pubkey!);
+    },
+    [loadPostMetadata],
+  );
+
+  // 自分の投稿・リポストは送信直後に表示する
+  useEffect(
+    () =>
+      onPublishedEvent((event) => {
+        if (event.kind === KIND.TEXT_NOTE || event.kind === KIND.REPOST) {
+          addTimelineEvent(event);
+        }
+      }),
+    [onPublishedEvent, addTimelineEvent],
+  );
+
+  // メモリ上限を超えた投稿を破棄する（再取得できるよう受信済み扱いも解除する）
+  // 描画範囲より上の投稿は、破棄した時刻を覚えておきloadNewerTimelineで取得し直す
+  const evictTimelinePosts = useCallback((evicted: Post[], position: "above" | "below") => {
+    if (evicted.length === 0) return;
+    debugLog(`Evicting ${evicted.length} timeline posts ${position} the rendered range`);
+    evicted.forEach((post) => seenEvents.current.delete(post.nostrEventId));
+    if (position === "above") {
+      const evictedAt = evicted.map((post) =>
+        Math.floor(new Date(post.createdAt).getTime() / 1000),
+      );
+      setEvictedAboveAt((current) => [...current, ...evictedAt].sort((a, b) => a - b));
+    }
+    setPosts((currentPosts) => {
+      const updatedPosts = new Map(currentPosts);
+      evicted.forEach((post) => updatedPosts.delete(post.nostrEventId));
+      let oldest = 0;
+      updatedPosts.forEach((post) => {
+        const createdAt = Math.floor(new Date(post.createdAt).getTime() / 1000);
+        oldest = oldest ? Math.min(oldest, createdAt) : createdAt;
+      });
+      timelineOldestAt.current = oldest;
+      return updatedPosts;
+    });
+  }, []);
+
+  // 現在のモードのREQフィルターを組み立てる（フォロー中は著者をチャンクに分割）
+  const getTimelineRequests = useCallback(
+    (range: { since?: number; until?: number; limit: number }) => {
+      if (!user) return { filters: [] as LazyFilter[] };
+      const base = { kinds: [KIND.TEXT_NOTE, KIND.REPOST], ...range };
+
+      if (timeline.type === "following") {
+        // 自分の投稿もフォロー中タイムラインに含める
+        const authors = Array.from(
+          new Set([...followingKey.split(",").filter(Boolean), user.publicKey]),
+        );
+        return {
+          filters: chunkArray(authors, AUTHORS_CHUNK_SIZE).map((chunk) => ({
+            ...base,
+            authors: chunk,
+          })) as LazyFilter[],
+        };
+      }
+      const options: RxNostrUseOptions | undefined =
+        timeline.type === "relay" ? { on: { relays: [timeline.url] } } : undefined;
+      return { filters: [base] as LazyFilter[], options };
+    },
+    // timelineはオブジェクトのため、timelineKeyで変化を判定する
+    [timelineKey, followingKey, user],
+  );
+
+  // チャンクごとに別のREQで取得して結果をまとめる
+  const fetchTimelineEvents = useCallback(
+    async (range: { since?: number; until?: number; limit: number }) => {
+      const { filters, options } = getTimelineRequests(range);
+      const results = await Promise.all(
+        filters.map((filter) => fetchEvents(filter, 15000, options)),
+      );
+      return results.flat();
+    },
+    [getTimelineRequests, fetchEvents],
+  );
+
+  useEffect(() => {
+    if (!isTimelineReady) return;
+
+    const { filters, options } = getTimelineRequests({
+      since: Math.floor(Date.now() / 1000) - 24 * 60 * 60,
+      limit: TIMELINE_PAGE_SIZE,
+    });
+
+    // イベントストアの投稿で先に表示し、リレーからの受信で補完する
+    // リレー単位のモードは受信元を保存していないため対象外
+    let cancelled = false;
+    if (timeline.type !== "relay") {
+      Promise.all(
+        filters.map((filter) =>
+          queryEvents({ kinds: filter.kinds, authors: filter.authors, limit: TIMELINE_PAGE_SIZE }),
+        ),
+      )
+        .then((results) => {
+          if (cancelled) return;
+          const cached = results
+            .flat()
+            .sort((a, b) => b.created_at - a.created_at)
+            .slice(0, TIMELINE_PAGE_SIZE);
+          debugLog(`Loaded ${cached.length} timeline events from the event store`);
+          cached.forEach((event) => addTimelineEvent(event));
+        })
+        .catch((error) => debugLog("Error loading cached timeline:", error));
+    }
+
+    debugLog(`Subscribing to ${timelineKey} timeline with ${filters.length} REQs`);
+    // チャンクごとに別のREQとして送信する
+    const unsubscribes = filters.map((filter) =>
+      subscribeEvents(
+        filter,
+        (event, from) => {
+          storeEvents([event as SignedEvent]);
+          addTimelineEvent(event, [from]);
+        },
+        options,
+        () =>
+          toast({
+            title: "エラー",
+            description: "タイムラインの取得に失敗しました",
+            variant: "destructive",
+          }),
+      ),
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [isTimelineReady, timelineKey, getTimelineRequests, subscribeEvents, addTimelineEvent, toast]);
+
+  // 表示中の最古の投稿より前を取得する。取得件数を返す
+  const loadMoreTimeline = useCallback(async (): Promise<number> => {
+    if (!isTimelineReady || !timelineOldestAt.current) return 0;
+
+    const until = timelineOldestAt.current - 1;
+    debugLog(`Loading older timeline posts until ${until}`);
+    const events = await fetchTimelineEvents({ until, limit: TIMELINE_PAGE_SIZE });
+    events.forEach((event) => addTimelineEvent(event));
+    return events.length;
+  }, [isTimelineReady, fetchTimelineEvents, addTimelineEvent]);
+
+  // 描画範囲より上で破棄した投稿を、表示中の投稿に近いものから取得し直す。取得件数を返す
+  const loadNewerTimeline = useCallback(async (): Promise<number> => {
+    if (!isTimelineReady || evictedAboveAt.length === 0) return 0;
+
+    // 破棄した投稿の時刻で範囲を区切り、1ページ分だけ取得する
+    const page = evictedAboveAt.slice(0, TIMELINE_PAGE_SIZE);
+    const since = page[0];
+    const until = page[page.length - 1];
+    debugLog(`Reloading evicted timeline posts from ${since} to ${until}`);
+    const events = await fetchTimelineEvents({ since, until, limit: TIMELINE_BACKFILL_LIMIT });
+    events.forEach((event) => addTimelineEvent(event));
+    setEvictedAboveAt((current) => current.filter((at) => at < since || at > until));
+    return events.length;
+  }, [isTimelineReady, evictedAboveAt, fetchTimelineEvents, addTimelineEvent]);
+
+  // 最後に受信した時刻から現在までの欠落を取得し直す
+  const backfillTimeline = useCallback(async () => {
+    if (!isTimelineReady || !timelineLatestAt.current) return;
+
+    const since = timelineLatestAt.current;
+    debugLog(`Backfilling timeline gap since ${since}`);
+    const events = await fetchTimelineEvents({
+      since,
+      until: Math.floor(Date.now() / 1000),
+      limit: TIMELINE_BACKFILL_LIMIT,
+    });
+    events.forEach((event) => addTimelineEvent(event));
+    debugLog(`Backfilled ${events.length} timeline events`);
+  }, [isTimelineReady, fetchTimelineEvents, addTimelineEvent]);
+
+  // タブの再表示時とリレーの再接続時にギャップを補完する
+  useEffect(() => {
+    if (!isTimelineReady) return;
+
+    let backfillTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleBackfill = () => {
+      // 複数のリレーが同時に再接続した場合もまとめて1回だけ取得する
+      if (backfillTimer) clearTimeout(backfillTimer);
+      backfillTimer = setTimeout(() => {
+        backfillTimer = null;
+        backfillTimeline().catch((error) => debugLog("Error backfilling timeline:", error));
+      }, TIMELINE_BACKFILL_DELAY);
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") scheduleBackfill();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    const wasDisconnected = new Set<string>();
+    const unsubscribeConnectionState = subscribeConnectionState((from, state) => {
+      if (state === "connected") {
+        if (wasDisconnected.delete(from)) scheduleBackfill();
+      } else if (state !== "initialized" && state !== "connecting") {
+        wasDisconnected.add(from);
+      }
+    });
+
+    return () => {
+      if (backfillTimer) clearTimeout(backfillTimer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      unsubscribeConnectionState();
+    };
+  }, [isTimelineReady, backfillTimeline, subscribeConnectionState]);
+
+  const sortedPosts = useMemo(
+    () =>
+      Array.from(posts.values()).sort(
+        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      ),
+    [posts],
+  );
+
+  return {
+    posts: sortedPosts,
+    isLoadingPosts: !isTimelineReady,
+    loadMoreTimeline,
+    loadNewerTimeline,
+    hasEvictedNewer: evictedAboveAt.length > 0,
+    evictTimelinePosts,
+  };
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+// NIP-02: コンタクトリスト（kind 3）の更新と、公開前の版の履歴管理
+
+export interface ContactListEvent {
+  id: string;
+  created_at: number;
+  tags: string[][];
+  // 旧形式のリレー設定JSONが入っている場合があるため、そのまま引き継ぐ
+  content: string;
+}
+
+export interface ContactListSnapshot {
+  event: ContactListEvent;
+  // 履歴に保存した時刻（ミリ秒）
+  savedAt: number;
+}
+
+const contactListSnapshotSchema = z.object({
+  event: z.object({
+    id: z.string(),
+    created_at: z.number(),
+    tags: z.array(z.array(z.string())),
+    content: z.string(),
+  }),
+  savedAt: z.number(),
+});
+
+// 最新のリストを確認できないまま公開すると既存のフォローを失うため、更新を中止する
+export class ContactListFetchError extends Error {
+  constructor() {
+    super("Could not fetch the latest contact list from any relay");
+    this.name = "ContactListFetchError";
+  }
+}
+
+const HISTORY_STORAGE_KEY = "nostr_contact_list_history";
+const MAX_HISTORY = 10;
+
+function storageKey(pubkey: string) {
+  return `${HISTORY_STORAGE_KEY}:${pubkey}`;
+}
+
+export function getFollowedPubkeys(tags: string[][]): string[] {
+  return tags.filter((tag) => tag[0] === "p" && tag[1]).map((tag) => tag[1]);
+}
+
+// 既存のタグ（リレーURL・ペットネーム、p以外のタグ）はそのまま残して追加する
+export function addContact(tags: string[][], pubkey: string): string[][] {
+  if (tags.some((tag) => tag[0] === "p" && tag[1] === pubkey)) return tags;
+  return [...tags, ["p", pubkey]];
+}
+
+export function removeContact(tags: string[][], pubkey: string): string[][] {
+  return tags.filter((tag) => !(tag[0] === "p" && tag[1] === pubkey));
+}
+
+// 新しい順の履歴を返す
+export function loadContactListHistory(pubkey: string): ContactListSnapshot[] {
+  try {
+    const stored = localStorage.getItem(storageKey(pubkey));
+    if (!stored) return [];
+    return z.array(contactListSnapshotSchema).parse(JSON.parse(stored));
+  } catch (error) {
+    console.error("Error loading contact list history from localStorage:", error);
+    return [];
+  }
+}
+
+// 置き換えられる前の版を履歴に追加する（同じイベントは重複して保存しない）
+export function saveContactListSnapshot(pubkey: string, event: ContactListEvent) {
+  const history = loadContactListHistory(pubkey).filter(
+    (snapshot) => snapshot.event.id !== event.id,
+  );
+  const snapshot: ContactListSnapshot = {
+    event: { id: event.id, created_at: event.created_at, tags: event.tags, content: event.content },
+    savedAt: Date.now(),
+  };
+  let updated = [snapshot, ...history].slice(0, MAX_HISTORY);
+
+  // 大きなリストで容量を超えた場合は古いものから減らす
+  while (updated.length > 0) {
+    try {
+      localStorage.setItem(storageKey(pubkey), JSON.stringify(updated));
+      return;
+    } catch (error) {
+      if (updated.length === 1) throw error;
+      updated = updated.slice(0, -1);
+    }
+  }
+}
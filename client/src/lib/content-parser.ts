@@ -0,0 +1,122 @@
+import { decodeNostrId } from "./nip19";
+
+// ノート本文をリンク・メディア・ハッシュタグ・メンション等のトークンに分解する
+
+export type ContentToken =
+  | { type: "text"; text: string }
+  | { type: "url"; url: string }
+  | { type: "image"; url: string }
+  | { type: "video"; url: string }
+  | { type: "hashtag"; tag: string }
+  | { type: "mention"; pubkey: string; relays: string[] }
+  | { type: "note"; id: string; relays: string[]; author?: string };
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|svg)$/i;
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov|m4v)$/i;
+
+// URL末尾に付きやすい句読点・閉じ括弧はURLに含めない
+const TRAILING_PUNCTUATION = /[.,!?;:)\]}>'"、。！？）」』]+$/;
+
+const TOKEN_REGEX = new RegExp(
+  [
+    // URL
+    "(https?:\\/\\/[^\\s<>\"]+)",
+    // NIP-21 nostr: URI
+    "(nostr:(?:npub|nprofile|note|nevent|naddr)1[02-9ac-hj-np-z]+)",
+    // NIP-08 旧形式メンション #[n]
+    "(#\\[\\d+\\])",
+    // ハッシュタグ（直前が空白か行頭のもののみ）
+    "((?:^|(?<=\\s))#[\\p{L}\\p{N}_]+)",
+  ].join("|"),
+  "giu",
+);
+
+function classifyUrl(url: string): ContentToken {
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    // パースできないURLはそのままリンクとして扱う
+  }
+  if (IMAGE_EXTENSIONS.test(pathname)) return { type: "image", url };
+  if (VIDEO_EXTENSIONS.test(pathname)) return { type: "video", url };
+  return { type: "url", url };
+}
+
+function parseNostrUri(uri: string): ContentToken | null {
+  const decoded = decodeNostrId(uri);
+  switch (decoded?.type) {
+    case "npub":
+      return { type: "mention", pubkey: decoded.pubkey, relays: [] };
+    case "nprofile":
+      return { type: "mention", pubkey: decoded.pubkey, relays: decoded.relays };
+    case "note":
+      return { type: "note", id: decoded.id, relays: [] };
+    case "nevent":
+      return { type: "note", id: decoded.id, relays: decoded.relays, author: decoded.author };
+    default:
+      return null;
+  }
+}
+
+// NIP-08: #[n] はイベントのn番目のタグを指す
+function parseLegacyMention(match: string, tags: string[][]): ContentToken | null {
+  const index = Number(match.slice(2, -1));
+  const tag = tags[index];
+  if (!tag?.[1]) return null;
+  if (tag[0] === "p") {
+    return { type: "mention", pubkey: tag[1], relays: tag[2] ? [tag[2]] : [] };
+  }
+  if (tag[0] === "e") {
+    return { type: "note", id: tag[1], relays: tag[2] ? [tag[2]] : [] };
+  }
+  return null;
+}
+
+export function parseContent(content: string, tags: string[][] = []): ContentToken[] {
+  const tokens: ContentToken[] = [];
+  let buffer = "";
+  let lastIndex = 0;
+
+  const flushText = () => {
+    if (buffer) {
+      tokens.push({ type: "text", text: buffer });
+      buffer = "";
+    }
+  };
+
+  for (const match of Array.from(content.matchAll(TOKEN_REGEX))) {
+    const [raw, url, nostrUri, legacy, hashtag] = match;
+    const index = match.index ?? 0;
+    buffer += content.slice(lastIndex, index);
+    lastIndex = index + raw.length;
+
+    let token: ContentToken | null = null;
+    if (url) {
+      const trailing = url.match(TRAILING_PUNCTUATION)?.[0] ?? "";
+      const trimmed = url.slice(0, url.length - trailing.length);
+      flushText();
+      tokens.push(classifyUrl(trimmed));
+      buffer += trailing;
+      continue;
+    } else if (nostrUri) {
+      token = parseNostrUri(nostrUri);
+    } else if (legacy) {
+      token = parseLegacyMention(legacy, tags);
+    } else if (hashtag) {
+      token = { type: "hashtag", tag: hashtag.slice(1) };
+    }
+
+    if (token) {
+      flushText();
+      tokens.push(token);
+    } else {
+      // 解釈できなかったものはテキストのまま残す
+      buffer += raw;
+    }
+  }
+
+  buffer += content.slice(lastIndex);
+  flushText();
+  return tokens;
+}
@@ -0,0 +1,78 @@
+import { nip04, nip44 } from "nostr-tools";
+import { etc } from "@noble/secp256k1";
+import type { NostrUser } from "@/hooks/use-auth";
+import { getNip46Client } from "./nip46";
+
+// ダイレクトメッセージ用の暗号化・復号の抽象化
+// 生成した鍵は秘密鍵で直接処理し、拡張機能ユーザーはwindow.nostr経由で処理する
+export interface DmCrypto {
+  nip44Encrypt(pubkey: string, plaintext: string): Promise<string>;
+  nip44Decrypt(pubkey: string, ciphertext: string): Promise<string>;
+  nip04Encrypt(pubkey: string, plaintext: string): Promise<string>;
+  nip04Decrypt(pubkey: string, ciphertext: string): Promise<string>;
+}
+
+function createSeckeyCrypto(privateKey: string): DmCrypto {
+  const secretKey = etc.hexToBytes(privateKey);
+  // 会話鍵の導出はコストが高いため相手ごとにキャッシュする
+  const conversationKeys = new Map<string, Uint8Array>();
+  const getConversationKey = (pubkey: string) => {
+    let key = conversationKeys.get(pubkey);
+    if (!key) {
+      key = nip44.getConversationKey(secretKey, pubkey);
+      conversationKeys.set(pubkey, key);
+    }
+    return key;
+  };
+
+  return {
+    async nip44Encrypt(pubkey, plaintext) {
+      return nip44.encrypt(plaintext, getConversationKey(pubkey));
+    },
+    async nip44Decrypt(pubkey, ciphertext) {
+      return nip44.decrypt(ciphertext, getConversationKey(pubkey));
+    },
+    nip04Encrypt(pubkey, plaintext) {
+      return nip04.encrypt(secretKey, pubkey, plaintext);
+    },
+    nip04Decrypt(pubkey, ciphertext) {
+      return nip04.decrypt(secretKey, pubkey, ciphertext);
+    },
+  };
+}
+
+function createExtensionCrypto(): DmCrypto {
+  const getNip44 = () => {
+    if (!window.nostr?.nip44) {
+      throw new Error("Nostr extension does not support NIP-44 encryption");
+    }
+    return window.nostr.nip44;
+  };
+  const getNip04 = () => {
+    if (!window.nostr?.nip04) {
+      throw new Error("Nostr extension does not support NIP-04 encryption");
+    }
+    return window.nostr.nip04;
+  };
+
+  return {
+    nip44Encrypt: (pubkey, plaintext) => getNip44().encrypt(pubkey, plaintext),
+    nip44Decrypt: (pubkey, ciphertext) => getNip44().decrypt(pubkey, ciphertext),
+    nip04Encrypt: (pubkey, plaintext) => getNip04().encrypt(pubkey, plaintext),
+    nip04Decrypt: (pubkey, ciphertext) => getNip04().decrypt(pubkey, ciphertext),
+  };
+}
+
+export function createDmCrypto(user: NostrUser): DmCrypto | null {
+  if (user.type === "generated" && user.privateKey) {
+    return createSeckeyCrypto(user.privateKey);
+  }
+  if (user.type === "extension") {
+    return createExtensionCrypto();
+  }
+  // NIP-46: 暗号化・復号もリモートサイナーに依頼する
+  if (user.type === "nip46" && user.nip46) {
+    return getNip46Client(user.nip46);
+  }
+  return null;
+}
@@ -0,0 +1,290 @@
+import type { NostrEvent as SignedEvent } from "nostr-tools";
+
+// IndexedDBに受信したイベントを保存し、起動直後の表示に使う
+
+const DB_NAME = "nostr_event_store";
+const DB_VERSION = 1;
+const EVENTS_STORE = "events";
+const MAX_STORED_EVENTS = 20000;
+const WRITE_DELAY = 500;
+
+export type StoredEvent = SignedEvent & {
+  // タグ検索用のインデックスキー（"e:<id>" のような1文字タグのみ）
+  tagKeys: string[];
+  // このクライアントが受信した時刻（ミリ秒）
+  receivedAt: number;
+};
+
+export interface EventQuery {
+  kinds?: number[];
+  authors?: string[];
+  // 1文字タグの名前と値（例: ["e", id]）
+  tag?: [string, string];
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+// NIP-01: kind 0, 3, 10000〜19999は著者ごとに最新の1件のみ保持する
+export function isReplaceableKind(kind: number): boolean {
+  return kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000);
+}
+
+function getTagKeys(tags: string[][]): string[] {
+  return Array.from(
+    new Set(tags.filter((tag) => tag[0]?.length === 1 && tag[1]).map((tag) => `${tag[0]}:${tag[1]}`)),
+  );
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// IndexedDBが使えない環境（プライベートモード等）ではnullを返し、保存をスキップする
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(EVENTS_STORE, { keyPath: "id" });
+      store.createIndex("kind", "kind");
+      store.createIndex("pubkey", "pubkey");
+      store.createIndex("created_at", "created_at");
+      store.createIndex("tags", "tagKeys", { multiEntry: true });
+      store.createIndex("kind_pubkey", ["kind", "pubkey"]);
+      store.createIndex("kind_created_at", ["kind", "created_at"]);
+      store.createIndex("pubkey_created_at", ["pubkey", "created_at"]);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("[EventStore] Failed to open IndexedDB:", request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+// NIP-01: created_atが同じ場合はIDの小さい方を採用する
+function isNewer(a: SignedEvent, b: SignedEvent): boolean {
+  return a.created_at > b.created_at || (a.created_at === b.created_at && a.id < b.id);
+}
+
+async function putEvents(events: SignedEvent[]): Promise<void> {
+  const db = await openDatabase();
+  if (!db || events.length === 0) return;
+
+  const transaction = db.transaction(EVENTS_STORE, "readwrite");
+  const store = transaction.objectStore(EVENTS_STORE);
+  const receivedAt = Date.now();
+
+  for (const event of events) {
+    const record: StoredEvent = {
+      id: event.id,
+      pubkey: event.pubkey,
+      created_at: event.created_at,
+      kind: event.kind,
+      tags: event.tags,
+      content: event.content,
+      sig: event.sig,
+      tagKeys: getTagKeys(event.tags),
+      receivedAt,
+    };
+
+    if (!isReplaceableKind(event.kind)) {
+      store.put(record);
+      continue;
+    }
+
+    // 置き換え可能イベントは既存の版より新しい場合のみ保存し、古い版は削除する
+    const existing = await requestToPromise<StoredEvent[]>(
+      store.index("kind_pubkey").getAll([event.kind, event.pubkey]),
+    );
+    if (existing.some((current) => current.id === event.id || isNewer(current, event))) {
+      continue;
+    }
+    existing.forEach((current) => store.delete(current.id));
+    store.put(record);
+  }
+
+  await transactionDone(transaction);
+}
+
+// 書き込みはまとめて1つのトランザクションで行う
+let writeQueue: SignedEvent[] = [];
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function storeEvents(events: SignedEvent[]) {
+  const valid = events.filter((event) => event.id && event.sig && event.pubkey);
+  if (valid.length === 0) return;
+  writeQueue.push(...valid);
+  if (writeTimer) return;
+
+  writeTimer = setTimeout(() => {
+    writeTimer = null;
+    const queued = writeQueue;
+    writeQueue = [];
+    putEvents(queued).catch((error) => console.error("[EventStore] Failed to store events:", error));
+  }, WRITE_DELAY);
+}
+
+// インデックスを新しい順に走査し、条件に合うものをlimit件まで集める
+async function collectFromIndex(
+  index: IDBIndex,
+  range: IDBKeyRange,
+  limit: number,
+  predicate: (event: StoredEvent) => boolean,
+): Promise<StoredEvent[]> {
+  const results: StoredEvent[] = [];
+  return new Promise((resolve, reject) => {
+    const request = index.openCursor(range, "prev");
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || results.length >= limit) {
+        resolve(results);
+        return;
+      }
+      const event = cursor.value as StoredEvent;
+      if (predicate(event)) results.push(event);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function queryEvents(query: EventQuery): Promise<StoredEvent[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  const { kinds, authors, tag, since = 0, until = Infinity, limit = 100 } = query;
+  const store = db.transaction(EVENTS_STORE, "readonly").objectStore(EVENTS_STORE);
+  const matches = (event: StoredEvent) =>
+    event.created_at >= since &&
+    event.created_at <= until &&
+    (!kinds || kinds.includes(event.kind)) &&
+    (!authors || authors.includes(event.pubkey)) &&
+    (!tag || event.tagKeys.includes(`${tag[0]}:${tag[1]}`));
+
+  let results: StoredEvent[];
+  if (tag) {
+    const tagged = await requestToPromise<StoredEvent[]>(
+      store.index("tags").getAll(`${tag[0]}:${tag[1]}`),
+    );
+    results = tagged.filter(matches);
+  } else if (authors) {
+    const perAuthor = await Promise.all(
+      authors.map((author) =>
+        collectFromIndex(
+          store.index("pubkey_created_at"),
+          IDBKeyRange.bound([author, since], [author, until]),
+          limit,
+          matches,
+        ),
+      ),
+    );
+    results = perAuthor.flat();
+  } else if (kinds) {
+    const perKind = await Promise.all(
+      kinds.map((kind) =>
+        collectFromIndex(
+          store.index("kind_created_at"),
+          IDBKeyRange.bound([kind, since], [kind, until]),
+          limit,
+          matches,
+        ),
+      ),
+    );
+    results = perKind.flat();
+  } else {
+    results = await collectFromIndex(
+      store.index("created_at"),
+      IDBKeyRange.bound(since, until),
+      limit,
+      matches,
+    );
+  }
+
+  return results.sort((a, b) => b.created_at - a.created_at).slice(0, limit);
+}
+
+export async function getEventsByIds(ids: string[]): Promise<StoredEvent[]> {
+  const db = await openDatabase();
+  if (!db || ids.length === 0) return [];
+
+  const store = db.transaction(EVENTS_STORE, "readonly").objectStore(EVENTS_STORE);
+  const events = await Promise.all(
+    ids.map((id) => requestToPromise<StoredEvent | undefined>(store.get(id))),
+  );
+  return events.filter((event): event is StoredEvent => !!event);
+}
+
+export async function getReplaceableEvent(
+  kind: number,
+  pubkey: string,
+): Promise<StoredEvent | undefined> {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  const store = db.transaction(EVENTS_STORE, "readonly").objectStore(EVENTS_STORE);
+  const events = await requestToPromise<StoredEvent[]>(
+    store.index("kind_pubkey").getAll([kind, pubkey]),
+  );
+  return events.sort((a, b) => (isNewer(a, b) ? -1 : 1))[0];
+}
+
+// 指定したkindのイベントをすべて取得（kind 0のメタデータ読み込み用）
+export async function getEventsByKind(kind: number): Promise<StoredEvent[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  const store = db.transaction(EVENTS_STORE, "readonly").objectStore(EVENTS_STORE);
+  return requestToPromise<StoredEvent[]>(store.index("kind").getAll(kind));
+}
+
+// 上限を超えた分を古い順に削除する（置き換え可能イベントは残す）
+export async function pruneEvents(maxEvents = MAX_STORED_EVENTS): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const transaction = db.transaction(EVENTS_STORE, "readwrite");
+  const store = transaction.objectStore(EVENTS_STORE);
+  let excess = (await requestToPromise(store.count())) - maxEvents;
+  if (excess <= 0) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = store.index("created_at").openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || excess <= 0) {
+        resolve();
+        return;
+      }
+      if (!isReplaceableKind((cursor.value as StoredEvent).kind)) {
+        cursor.delete();
+        excess--;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  await transactionDone(transaction);
+  console.info(`[EventStore] Pruned events down to ${maxEvents}`);
+}
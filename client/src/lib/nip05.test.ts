@@ -0,0 +1,150 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createNip05Resolver,
+  parseNip05,
+  resolveNip05,
+  setNip05Resolver,
+  verifyNip05,
+} from "./nip05";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+// ドメインごとのnostr.jsonを返すローカルのサーバー（パスの先頭をドメインとして扱う）
+const documents: Record<string, unknown> = {
+  "example.com": {
+    names: { alice: ALICE, _: BOB },
+    relays: { [ALICE]: ["wss://relay.example.com"] },
+  },
+};
+
+describe("nip05", () => {
+  let server: Server;
+  let requestCount = 0;
+  let failing = false;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requestCount++;
+      const url = new URL(req.url!, "http://localhost");
+      const domain = url.pathname.split("/")[1];
+      if (domain === "redirect.test") {
+        res.writeHead(302, { Location: "/example.com/.well-known/nostr.json" });
+        res.end();
+        return;
+      }
+      if (failing || !(domain in documents)) {
+        res.writeHead(failing ? 500 : 404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(documents[domain]));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  after(() => {
+    setNip05Resolver();
+    return new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    const { port } = server.address() as AddressInfo;
+    setNip05Resolver(
+      createNip05Resolver(
+        (name, domain) =>
+          `http://127.0.0.1:${port}/${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`,
+      ),
+    );
+    requestCount = 0;
+    failing = false;
+    // 失敗時のログを抑える
+    mock.method(console, "error", () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  describe("parseNip05", () => {
+    it("parses name@domain and _@domain", () => {
+      assert.deepEqual(parseNip05("Alice@Example.com"), { name: "alice", domain: "example.com" });
+      assert.deepEqual(parseNip05("_@example.com"), { name: "_", domain: "example.com" });
+    });
+
+    it("treats a bare domain as _@domain", () => {
+      assert.deepEqual(parseNip05("example.com"), { name: "_", domain: "example.com" });
+    });
+
+    it("rejects invalid input", () => {
+      for (const input of ["", "alice", "alice@", "@example.com", "alice@localhost", "a b@example.com"]) {
+        assert.equal(parseNip05(input), null, input);
+      }
+    });
+  });
+
+  describe("verifyNip05", () => {
+    it("matches the published pubkey", async () => {
+      assert.equal(await verifyNip05("alice@example.com", ALICE.toUpperCase()), true);
+      assert.equal(await verifyNip05("example.com", BOB), true);
+    });
+
+    it("does not match another pubkey or a missing name", async () => {
+      assert.equal(await verifyNip05("alice@example.com", BOB), false);
+      assert.equal(await verifyNip05("carol@example.com", ALICE), false);
+    });
+
+    it("returns the relays for the pubkey", async () => {
+      assert.deepEqual(await resolveNip05("alice@example.com"), {
+        pubkey: ALICE,
+        relays: ["wss://relay.example.com"],
+      });
+    });
+  });
+
+  describe("cache", () => {
+    it("keeps successful lookups for an hour", async () => {
+      const now = Date.now();
+      const clock = mock.method(Date, "now", () => now);
+
+      await resolveNip05("alice@example.com");
+      await resolveNip05("alice@example.com");
+      assert.equal(requestCount, 1);
+
+      clock.mock.mockImplementation(() => now + 59 * 60 * 1000);
+      await resolveNip05("alice@example.com");
+      assert.equal(requestCount, 1);
+
+      clock.mock.mockImplementation(() => now + 61 * 60 * 1000);
+      await resolveNip05("alice@example.com");
+      assert.equal(requestCount, 2);
+    });
+
+    it("retries failed lookups after five minutes", async () => {
+      const now = Date.now();
+      const clock = mock.method(Date, "now", () => now);
+      failing = true;
+
+      assert.equal(await resolveNip05("alice@example.com"), null);
+      failing = false;
+      assert.equal(await resolveNip05("alice@example.com"), null);
+      assert.equal(requestCount, 1);
+
+      clock.mock.mockImplementation(() => now + 6 * 60 * 1000);
+      assert.equal((await resolveNip05("alice@example.com"))?.pubkey, ALICE);
+      assert.equal(requestCount, 2);
+    });
+
+    it("shares in-flight requests", async () => {
+      await Promise.all([resolveNip05("alice@example.com"), resolveNip05("ALICE@example.com")]);
+      assert.equal(requestCount, 1);
+    });
+  });
+
+  it("does not follow redirects", async () => {
+    assert.equal(await resolveNip05("alice@redirect.test"), null);
+    assert.equal(requestCount, 1);
+  });
+});
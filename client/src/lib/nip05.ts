@@ -0,0 +1,108 @@
+import { isHex64 } from "./nip19";
+
+// NIP-05: name@domain形式の識別子を/.well-known/nostr.jsonで公開鍵に解決する
+
+export interface Nip05Pointer {
+  pubkey: string;
+  relays: string[];
+}
+
+// nostr.jsonを取得する関数（テストではローカルのサーバーを参照するものに差し替える）
+export type Nip05Resolver = (name: string, domain: string) => Promise<unknown>;
+
+const CACHE_TTL = 1000 * 60 * 60; // 1時間
+const FAILURE_TTL = 1000 * 60 * 5; // 失敗時は5分で再試行する
+const NIP05_PATTERN = /^(?:([\w.+-]+)@)?([\w-]+(?:\.[\w-]+)+)$/;
+
+export function createNip05Resolver(
+  buildUrl: (name: string, domain: string) => string = (name, domain) =>
+    `https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`,
+): Nip05Resolver {
+  return async (name, domain) => {
+    // NIP-05ではリダイレクトを辿ってはならない
+    const res = await fetch(buildUrl(name, domain), { redirect: "error" });
+    if (!res.ok) {
+      throw new Error(`${res.status}: ${res.statusText}`);
+    }
+    return res.json();
+  };
+}
+
+let resolver: Nip05Resolver = createNip05Resolver();
+const cache = new Map<string, { pointer: Nip05Pointer | null; timestamp: number }>();
+const requests = new Map<string, Promise<Nip05Pointer | null>>();
+
+// 解決に使う関数を差し替える（未指定で既定に戻す）。キャッシュも破棄する
+export function setNip05Resolver(next?: Nip05Resolver) {
+  resolver = next ?? createNip05Resolver();
+  cache.clear();
+  requests.clear();
+}
+
+// 「domain」のみの場合は「_@domain」として扱う
+export function parseNip05(identifier: string): { name: string; domain: string } | null {
+  const match = identifier.trim().toLowerCase().match(NIP05_PATTERN);
+  if (!match) return null;
+  return { name: match[1] ?? "_", domain: match[2] };
+}
+
+// 表示用（「_@domain」はドメインのみ表示する）
+export function formatNip05(identifier: string): string {
+  const parsed = parseNip05(identifier);
+  if (!parsed) return identifier;
+  return parsed.name === "_" ? parsed.domain : `${parsed.name}@${parsed.domain}`;
+}
+
+function toPointer(json: unknown, name: string): Nip05Pointer | null {
+  if (!json || typeof json !== "object") return null;
+  const { names, relays } = json as {
+    names?: Record<string, unknown>;
+    relays?: Record<string, unknown>;
+  };
+  const pubkey = names?.[name];
+  if (typeof pubkey !== "string" || !isHex64(pubkey)) return null;
+
+  const pubkeyRelays = relays?.[pubkey];
+  return {
+    pubkey: pubkey.toLowerCase(),
+    relays: Array.isArray(pubkeyRelays)
+      ? pubkeyRelays.filter((url): url is string => typeof url === "string")
+      : [],
+  };
+}
+
+// 識別子を公開鍵とリレーに解決する（見つからない・取得失敗の場合はnull）
+export function resolveNip05(identifier: string): Promise<Nip05Pointer | null> {
+  const parsed = parseNip05(identifier);
+  if (!parsed) return Promise.resolve(null);
+
+  const key = `${parsed.name}@${parsed.domain}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.timestamp < (cached.pointer ? CACHE_TTL : FAILURE_TTL)) {
+    return Promise.resolve(cached.pointer);
+  }
+
+  const inFlight = requests.get(key);
+  if (inFlight) return inFlight;
+
+  const request = resolver(parsed.name, parsed.domain)
+    .then((json) => toPointer(json, parsed.name))
+    .catch((error) => {
+      console.error(`Error resolving NIP-05 identifier ${key}:`, error);
+      return null;
+    })
+    .then((pointer) => {
+      cache.set(key, { pointer, timestamp: Date.now() });
+      return pointer;
+    })
+    .finally(() => requests.delete(key));
+
+  requests.set(key, request);
+  return request;
+}
+
+// 識別子が指定した公開鍵を指しているかを確認する
+export async function verifyNip05(identifier: string, pubkey: string): Promise<boolean> {
+  const pointer = await resolveNip05(identifier);
+  return pointer?.pubkey === pubkey.toLowerCase();
+}
@@ -0,0 +1,76 @@
+import { getEventHash, nip59, verifyEvent } from "nostr-tools";
+import type { NostrEvent as SignedEvent, UnsignedEvent } from "nostr-tools";
+import type { DmCrypto } from "./dm-crypto";
+
+// NIP-17/NIP-59: ギフトラップされたダイレクトメッセージ
+
+export const DM_KIND = {
+  LEGACY_DM: 4,
+  SEAL: 13,
+  CHAT_MESSAGE: 14,
+  GIFT_WRAP: 1059,
+  DM_RELAY_LIST: 10050,
+} as const;
+
+export type Rumor = UnsignedEvent & { id: string };
+
+// sealはログイン中のユーザー鍵で署名する（created_atは呼び出し側で指定）
+export type SealSigner = (params: {
+  kind: number;
+  content: string;
+  tags: string[][];
+  created_at: number;
+}) => Promise<SignedEvent>;
+
+// NIP-59: メタデータ漏洩を防ぐため、sealのcreated_atは最大2日前までランダムにずらす
+const TWO_DAYS = 2 * 24 * 60 * 60;
+function randomPastTimestamp() {
+  return Math.floor(Date.now() / 1000 - Math.random() * TWO_DAYS);
+}
+
+// kind 14の署名なしメッセージ（rumor）を作成
+export function createRumor(
+  senderPubkey: string,
+  recipientPubkey: string,
+  content: string,
+): Rumor {
+  const rumor: UnsignedEvent = {
+    kind: DM_KIND.CHAT_MESSAGE,
+    pubkey: senderPubkey,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [["p", recipientPubkey]],
+    content,
+  };
+  return { ...rumor, id: getEventHash(rumor) };
+}
+
+// rumorをsealで包み、さらに使い捨て鍵でgift wrapする
+export async function createGiftWrap(
+  rumor: Rumor,
+  recipientPubkey: string,
+  sign: SealSigner,
+  crypto: DmCrypto,
+): Promise<SignedEvent> {
+  const seal = await sign({
+    kind: DM_KIND.SEAL,
+    content: await crypto.nip44Encrypt(recipientPubkey, JSON.stringify(rumor)),
+    created_at: randomPastTimestamp(),
+    tags: [],
+  });
+  return nip59.createWrap(seal, recipientPubkey);
+}
+
+// gift wrapを開封してrumorを取り出す。署名や送信者が不正な場合は例外を投げる
+export async function unwrapGiftWrap(wrap: SignedEvent, crypto: DmCrypto): Promise<Rumor> {
+  const seal = JSON.parse(await crypto.nip44Decrypt(wrap.pubkey, wrap.content)) as SignedEvent;
+  if (seal.kind !== DM_KIND.SEAL || !verifyEvent(seal)) {
+    throw new Error("Invalid seal");
+  }
+
+  const rumor = JSON.parse(await crypto.nip44Decrypt(seal.pubkey, seal.content)) as Rumor;
+  // なりすまし防止: rumorの作成者はsealの署名者と一致しなければならない
+  if (rumor.pubkey !== seal.pubkey) {
+    throw new Error("Rumor author does not match seal signer");
+  }
+  return rumor;
+}
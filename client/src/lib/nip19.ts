@@ -0,0 +1,139 @@
+import { nip19 } from "nostr-tools";
+import type { AddressPointer, EventPointer, ProfilePointer } from "nostr-tools/nip19";
+import { etc } from "@noble/secp256k1";
+
+// NIP-19/NIP-21: bech32エンコードされた識別子の変換ユーティリティ
+
+const HEX_64_REGEX = /^[0-9a-f]{64}$/i;
+const NOSTR_URI_PREFIX = "nostr:";
+
+export type { AddressPointer, EventPointer, ProfilePointer };
+
+export type DecodedNostrId =
+  | { type: "npub"; pubkey: string }
+  | { type: "nsec"; privateKey: string }
+  | { type: "note"; id: string }
+  | { type: "nprofile"; pubkey: string; relays: string[] }
+  | { type: "nevent"; id: string; relays: string[]; author?: string; kind?: number }
+  | { type: "naddr"; identifier: string; pubkey: string; kind: number; relays: string[] };
+
+export function isHex64(value: string): boolean {
+  return HEX_64_REGEX.test(value);
+}
+
+export function encodeNpub(pubkey: string): string {
+  return nip19.npubEncode(pubkey);
+}
+
+export function encodeNsec(privateKey: string): string {
+  return nip19.nsecEncode(etc.hexToBytes(privateKey));
+}
+
+export function encodeNote(id: string): string {
+  return nip19.noteEncode(id);
+}
+
+export function encodeNprofile(pubkey: string, relays: string[] = []): string {
+  return nip19.nprofileEncode({ pubkey, relays });
+}
+
+export function encodeNevent(pointer: EventPointer): string {
+  return nip19.neventEncode({ ...pointer, relays: pointer.relays ?? [] });
+}
+
+export function encodeNaddr(pointer: AddressPointer): string {
+  return nip19.naddrEncode({ ...pointer, relays: pointer.relays ?? [] });
+}
+
+// "nostr:"プレフィックス付きのURIも受け付けて識別子をデコードする。不正な値はnullを返す
+export function decodeNostrId(input: string): DecodedNostrId | null {
+  const value = input.trim().replace(new RegExp(`^${NOSTR_URI_PREFIX}`, "i"), "");
+
+  try {
+    const decoded = nip19.decode(value);
+    switch (decoded.type) {
+      case "npub":
+        return { type: "npub", pubkey: decoded.data };
+      case "nsec":
+        return { type: "nsec", privateKey: etc.bytesToHex(decoded.data) };
+      case "note":
+        return { type: "note", id: decoded.data };
+      case "nprofile":
+        return {
+          type: "nprofile",
+          pubkey: decoded.data.pubkey,
+          relays: decoded.data.relays ?? [],
+        };
+      case "nevent":
+        return {
+          type: "nevent",
+          id: decoded.data.id,
+          relays: decoded.data.relays ?? [],
+          author: decoded.data.author,
+          kind: decoded.data.kind,
+        };
+      case "naddr":
+        return {
+          type: "naddr",
+          identifier: decoded.data.identifier,
+          pubkey: decoded.data.pubkey,
+          kind: decoded.data.kind,
+          relays: decoded.data.relays ?? [],
+        };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+// hex・npub・nprofileのいずれかから公開鍵とリレーヒントを取り出す
+export function resolveProfilePointer(input: string): ProfilePointer | null {
+  const value = input.trim();
+  if (isHex64(value)) {
+    return { pubkey: value.toLowerCase(), relays: [] };
+  }
+
+  const decoded = decodeNostrId(value);
+  if (decoded?.type === "npub") {
+    return { pubkey: decoded.pubkey, relays: [] };
+  }
+  if (decoded?.type === "nprofile") {
+    return { pubkey: decoded.pubkey, relays: decoded.relays };
+  }
+  return null;
+}
+
+// hex・note・neventのいずれかからイベントIDとリレーヒントを取り出す
+export function resolveEventPointer(input: string): EventPointer | null {
+  const value = input.trim();
+  if (isHex64(value)) {
+    return { id: value.toLowerCase(), relays: [] };
+  }
+
+  const decoded = decodeNostrId(value);
+  if (decoded?.type === "note") {
+    return { id: decoded.id, relays: [] };
+  }
+  if (decoded?.type === "nevent") {
+    return {
+      id: decoded.id,
+      relays: decoded.relays,
+      author: decoded.author,
+      kind: decoded.kind,
+    };
+  }
+  return null;
+}
+
+// 表示用にbech32文字列の中間を省略する（例: npub1abcd…wxyz）
+export function shortenBech32(value: string, length = 8): string {
+  const separator = value.indexOf("1");
+  if (value.length <= separator + 1 + length * 2) return value;
+  return `${value.slice(0, separator + 1 + length)}…${value.slice(-length)}`;
+}
+
+export function shortNpub(pubkey: string): string {
+  return shortenBech32(encodeNpub(pubkey));
+}
@@ -0,0 +1,65 @@
+import { fetchRelayInfo } from "rx-nostr";
+
+// NIP-45: リレーにイベント数だけを問い合わせる（COUNT）
+// rx-nostrはCOUNTの送信に対応していないため、対応リレーへ個別に接続する
+
+const COUNT_TIMEOUT = 5000;
+const countSupport = new Map<string, Promise<boolean>>();
+
+// NIP-11のsupported_nipsでCOUNTへの対応を判定する（結果はURLごとに保持する）
+export function supportsCount(url: string): Promise<boolean> {
+  const cached = countSupport.get(url);
+  if (cached) return cached;
+
+  const request = fetchRelayInfo(url)
+    .then((info) => !!info.supported_nips?.includes(45))
+    .catch(() => false);
+  countSupport.set(url, request);
+  return request;
+}
+
+// 件数を返す。拒否・タイムアウト・接続失敗の場合はnull
+export function countEvents(
+  url: string,
+  filter: Record<string, unknown>,
+  timeout = COUNT_TIMEOUT,
+): Promise<number | null> {
+  return new Promise((resolve) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch {
+      resolve(null);
+      return;
+    }
+
+    const subId = `count-${Math.random().toString(36).slice(2, 10)}`;
+    let isCompleted = false;
+
+    const finish = (count: number | null) => {
+      if (isCompleted) return;
+      isCompleted = true;
+      clearTimeout(timeoutId);
+      socket.close();
+      resolve(count);
+    };
+
+    const timeoutId = setTimeout(() => finish(null), timeout);
+
+    socket.onopen = () => socket.send(JSON.stringify(["COUNT", subId, filter]));
+    socket.onmessage = (message) => {
+      try {
+        const [type, id, payload] = JSON.parse(message.data);
+        if (id !== subId) return;
+        if (type === "COUNT" && typeof payload?.count === "number") {
+          finish(payload.count);
+        } else if (type === "CLOSED") {
+          finish(null);
+        }
+      } catch {
+        // JSONでないメッセージは無視する
+      }
+    };
+    socket.onerror = () => finish(null);
+  });
+}
@@ -0,0 +1,364 @@
+import { createRxForwardReq, createRxNostr, type EventSigner, type RxNostr } from "rx-nostr";
+import { seckeySigner, verifier } from "rx-nostr-crypto";
+import { generateSecretKey, getPublicKey, nip04, nip44, verifyEvent, type NostrEvent } from "nostr-tools";
+import { parseBunkerInput } from "nostr-tools/nip46";
+import { etc } from "@noble/secp256k1";
+
+// NIP-46: リモートサイナー（bunker）にkind 24133で署名を依頼する
+// 通信用の使い捨て鍵（clientSecretKey）のみをブラウザに保存し、ユーザーの秘密鍵は扱わない
+
+export const NIP46_KIND = 24133;
+export const NOSTR_CONNECT_RELAYS = ["wss://relay.nsec.app"];
+
+const REQUEST_TIMEOUT = 60 * 1000;
+// 認可ページでの承認を待つ間の猶予
+export const NIP46_AUTH_TIMEOUT = 5 * 60 * 1000;
+const NOSTR_CONNECT_PERMS = "sign_event,nip44_encrypt,nip44_decrypt,nip04_encrypt,nip04_decrypt";
+
+export interface Nip46Session {
+  // 通信用の鍵（16進数）
+  clientSecretKey: string;
+  // リモートサイナーの公開鍵（ユーザーの公開鍵とは異なる場合がある）
+  remotePubkey: string;
+  relays: string[];
+}
+
+interface Nip46Response {
+  id: string;
+  result?: string;
+  error?: string;
+}
+
+export interface Nip46Client {
+  session: Nip46Session;
+  sendRequest(method: string, params: string[]): Promise<string>;
+  connect(secret?: string | null): Promise<void>;
+  getPublicKey(): Promise<string>;
+  signEvent(template: {
+    kind: number;
+    content: string;
+    tags: string[][];
+    created_at: number;
+  }): Promise<NostrEvent>;
+  nip44Encrypt(pubkey: string, plaintext: string): Promise<string>;
+  nip44Decrypt(pubkey: string, ciphertext: string): Promise<string>;
+  nip04Encrypt(pubkey: string, plaintext: string): Promise<string>;
+  nip04Decrypt(pubkey: string, ciphertext: string): Promise<string>;
+  close(): void;
+}
+
+export function generateClientSecretKey(): string {
+  return etc.bytesToHex(generateSecretKey());
+}
+
+// nostrconnect://で接続してきたサイナーを確認するための値
+export function generateConnectSecret(): string {
+  return etc.bytesToHex(crypto.getRandomValues(new Uint8Array(8)));
+}
+
+function createRelayClient(clientSecretKey: string, relays: string[]): RxNostr {
+  const rxNostr = createRxNostr({ verifier, signer: seckeySigner(clientSecretKey) });
+  rxNostr.setDefaultRelays(relays.map((url) => ({ url, read: true, write: true })));
+  return rxNostr;
+}
+
+// 古いサイナーはNIP-04で応答するため、形式を見て復号方法を切り替える
+async function decryptContent(secretKey: Uint8Array, pubkey: string, content: string) {
+  if (content.includes("?iv=")) {
+    return nip04.decrypt(secretKey, pubkey, content);
+  }
+  return nip44.decrypt(content, nip44.getConversationKey(secretKey, pubkey));
+}
+
+async function parseResponse(secretKey: Uint8Array, event: { pubkey: string; content: string }) {
+  try {
+    const response = JSON.parse(await decryptContent(secretKey, event.pubkey, event.content));
+    return response && typeof response.id === "string" ? (response as Nip46Response) : null;
+  } catch {
+    return null;
+  }
+}
+
+// 認可が必要になったときの通知先（画面側で承認用のリンクを表示する）
+const authUrlListeners = new Set<(url: string) => void>();
+
+export function onNip46AuthUrl(listener: (url: string) => void): () => void {
+  authUrlListeners.add(listener);
+  return () => {
+    authUrlListeners.delete(listener);
+  };
+}
+
+function notifyAuthUrl(url: string) {
+  authUrlListeners.forEach((listener) => listener(url));
+}
+
+// サイナーから届いたURLはhttpsのみ開けるようにする（javascript:などを防ぐ）
+function parseAuthUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createNip46Client(
+  session: Nip46Session,
+  onAuthUrl: (url: string) => void = notifyAuthUrl,
+): Nip46Client {
+  const secretKey = etc.hexToBytes(session.clientSecretKey);
+  const clientPubkey = getPublicKey(secretKey);
+  const conversationKey = nip44.getConversationKey(secretKey, session.remotePubkey);
+  const rxNostr = createRelayClient(session.clientSecretKey, session.relays);
+  const pending = new Map<
+    string,
+    {
+      resolve: (result: string) => void;
+      reject: (error: Error) => void;
+      timeoutId: ReturnType<typeof setTimeout>;
+    }
+  >();
+  let userPubkey: string | null = null;
+
+  const expire = (id: string, method: string, timeout: number) =>
+    setTimeout(() => {
+      pending.get(id)?.reject(new Error(`NIP-46 request "${method}" timed out`));
+      pending.delete(id);
+    }, timeout);
+
+  const rxReq = createRxForwardReq();
+  const subscription = rxNostr.use(rxReq).subscribe(async ({ event }) => {
+    if (event.pubkey !== session.remotePubkey) return;
+    const response = await parseResponse(secretKey, event);
+    const request = response && pending.get(response.id);
+    if (!response || !request) return;
+
+    // 認可が必要な場合は同じIDで再度応答が届くまで待つ
+    if (response.result === "auth_url" && response.error) {
+      clearTimeout(request.timeoutId);
+      const authUrl = parseAuthUrl(response.error);
+      if (!authUrl) {
+        pending.delete(response.id);
+        request.reject(new Error("Remote signer sent an invalid authorization URL"));
+        return;
+      }
+      request.timeoutId = expire(response.id, "auth", NIP46_AUTH_TIMEOUT);
+      onAuthUrl(authUrl);
+      return;
+    }
+
+    clearTimeout(request.timeoutId);
+    pending.delete(response.id);
+    if (response.error) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result ?? "");
+    }
+  });
+  // 接続直後に届く応答を取りこぼさないよう、少し前から購読する
+  rxReq.emit({ kinds: [NIP46_KIND], "#p": [clientPubkey], since: Math.floor(Date.now() / 1000) - 10 });
+
+  const sendRequest = (method: string, params: string[]) => {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    const content = nip44.encrypt(JSON.stringify({ id, method, params }), conversationKey);
+
+    return new Promise<string>((resolve, reject) => {
+      pending.set(id, { resolve, reject, timeoutId: expire(id, method, REQUEST_TIMEOUT) });
+      rxNostr
+        .send({ kind: NIP46_KIND, content, tags: [["p", session.remotePubkey]] })
+        .subscribe({
+          error: (error) => {
+            const request = pending.get(id);
+            if (!request) return;
+            clearTimeout(request.timeoutId);
+            pending.delete(id);
+            reject(error instanceof Error ? error : new Error(String(error)));
+          },
+        });
+    });
+  };
+
+  return {
+    session,
+    sendRequest,
+
+    async connect(secret) {
+      const params = secret ? [session.remotePubkey, secret] : [session.remotePubkey];
+      const result = await sendRequest("connect", params);
+      if (result !== "ack" && result !== secret) {
+        throw new Error("Remote signer rejected the connection");
+      }
+    },
+
+    async getPublicKey() {
+      if (!userPubkey) {
+        userPubkey = await sendRequest("get_public_key", []);
+      }
+      return userPubkey;
+    },
+
+    async signEvent(template) {
+      const pubkey = await this.getPublicKey();
+      const event = JSON.parse(await sendRequest("sign_event", [JSON.stringify(template)])) as NostrEvent;
+      // 依頼した内容と異なるイベントや不正な署名は受け付けない
+      if (
+        event.pubkey !== pubkey ||
+        event.kind !== template.kind ||
+        event.content !== template.content ||
+        event.created_at !== template.created_at ||
+        JSON.stringify(event.tags) !== JSON.stringify(template.tags) ||
+        !verifyEvent(event)
+      ) {
+        throw new Error("Remote signer returned an invalid signed event");
+      }
+      return event;
+    },
+
+    nip44Encrypt: (pubkey, plaintext) => sendRequest("nip44_encrypt", [pubkey, plaintext]),
+    nip44Decrypt: (pubkey, ciphertext) => sendRequest("nip44_decrypt", [pubkey, ciphertext]),
+    nip04Encrypt: (pubkey, plaintext) => sendRequest("nip04_encrypt", [pubkey, plaintext]),
+    nip04Decrypt: (pubkey, ciphertext) => sendRequest("nip04_decrypt", [pubkey, ciphertext]),
+
+    close() {
+      pending.forEach((request) => {
+        clearTimeout(request.timeoutId);
+        request.reject(new Error("NIP-46 connection closed"));
+      });
+      pending.clear();
+      subscription.unsubscribe();
+      rxNostr.dispose();
+    },
+  };
+}
+
+// rx-nostrの署名とDMの暗号化で同じ接続を共有する
+const clients = new Map<string, Nip46Client>();
+
+export function getNip46Client(session: Nip46Session): Nip46Client {
+  let client = clients.get(session.clientSecretKey);
+  if (!client) {
+    client = createNip46Client(session);
+    clients.set(session.clientSecretKey, client);
+  }
+  return client;
+}
+
+export function closeNip46Client(session: Nip46Session) {
+  clients.get(session.clientSecretKey)?.close();
+  clients.delete(session.clientSecretKey);
+}
+
+// bunker://のURIまたはNIP-05識別子からサイナーに接続し、ユーザーの公開鍵を返す
+export async function connectBunker(input: string): Promise<{ session: Nip46Session; pubkey: string }> {
+  const pointer = await parseBunkerInput(input.trim());
+  if (!pointer || pointer.relays.length === 0) {
+    throw new Error("Invalid bunker URI");
+  }
+
+  const session: Nip46Session = {
+    clientSecretKey: generateClientSecretKey(),
+    remotePubkey: pointer.pubkey,
+    relays: pointer.relays,
+  };
+  const client = getNip46Client(session);
+  try {
+    await client.connect(pointer.secret);
+    return { session, pubkey: await client.getPublicKey() };
+  } catch (error) {
+    closeNip46Client(session);
+    throw error;
+  }
+}
+
+// サイナー側で読み取ってもらうnostrconnect://のURI
+export function createNostrConnectUri({
+  clientSecretKey,
+  relays,
+  secret,
+  name,
+}: {
+  clientSecretKey: string;
+  relays: string[];
+  secret: string;
+  name: string;
+}): string {
+  const params = new URLSearchParams();
+  relays.forEach((relay) => params.append("relay", relay));
+  params.set("secret", secret);
+  params.set("perms", NOSTR_CONNECT_PERMS);
+  params.set("name", name);
+  return `nostrconnect://${getPublicKey(etc.hexToBytes(clientSecretKey))}?${params.toString()}`;
+}
+
+// サイナーからの接続（secretを含む応答）を待ち、セッションとユーザーの公開鍵を返す
+export function waitForNostrConnect({
+  clientSecretKey,
+  relays,
+  secret,
+  signal,
+}: {
+  clientSecretKey: string;
+  relays: string[];
+  secret: string;
+  signal: AbortSignal;
+}): Promise<{ session: Nip46Session; pubkey: string }> {
+  const secretKey = etc.hexToBytes(clientSecretKey);
+  const rxNostr = createRelayClient(clientSecretKey, relays);
+
+  return new Promise<Nip46Session>((resolve, reject) => {
+    const rxReq = createRxForwardReq();
+    const finish = () => {
+      signal.removeEventListener("abort", handleAbort);
+      subscription.unsubscribe();
+      rxNostr.dispose();
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new Error("Nostr Connect was cancelled"));
+    };
+
+    const subscription = rxNostr.use(rxReq).subscribe(async ({ event }) => {
+      const response = await parseResponse(secretKey, event);
+      // secretが一致しない応答は別のクライアント宛てとして無視する
+      if (response?.result !== secret) return;
+      finish();
+      resolve({ clientSecretKey, remotePubkey: event.pubkey, relays });
+    });
+
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+    signal.addEventListener("abort", handleAbort);
+    rxReq.emit({
+      kinds: [NIP46_KIND],
+      "#p": [getPublicKey(secretKey)],
+      since: Math.floor(Date.now() / 1000) - 10,
+    });
+  }).then(async (session) => {
+    const client = getNip46Client(session);
+    try {
+      return { session, pubkey: await client.getPublicKey() };
+    } catch (error) {
+      closeNip46Client(session);
+      throw error;
+    }
+  });
+}
+
+// rx-nostr用のサイナー
+export function nip46Signer(client: Nip46Client): EventSigner {
+  return {
+    getPublicKey: () => client.getPublicKey(),
+    async signEvent(params) {
+      const event = await client.signEvent({
+        kind: params.kind,
+        content: params.content ?? "",
+        tags: params.tags ?? [],
+        created_at: params.created_at ?? Math.floor(Date.now() / 1000),
+      });
+      return { ...event, kind: params.kind };
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import * as nip49 from "nostr-tools/nip49";
+import { etc } from "@noble/secp256k1";
+
+// NIP-49: 生成した秘密鍵をパスフレーズで暗号化したncryptsecとして保存する
+// （scryptで鍵を導出し、XChaCha20-Poly1305で暗号化）
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// 自動ロックまでの無操作時間（分）。0は自動ロックしない
+export const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60];
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const AUTO_LOCK_STORAGE_KEY = "nostr_auto_lock";
+
+export function isNcryptsec(value: string): boolean {
+  return value.trim().startsWith("ncryptsec1");
+}
+
+export function encryptPrivateKey(privateKey: string, passphrase: string): string {
+  return nip49.encrypt(etc.hexToBytes(privateKey), passphrase.normalize("NFKC"));
+}
+
+export function decryptNcryptsec(ncryptsec: string, passphrase: string): string {
+  try {
+    return etc.bytesToHex(nip49.decrypt(ncryptsec.trim(), passphrase.normalize("NFKC")));
+  } catch {
+    throw new Error("Incorrect passphrase or invalid ncryptsec");
+  }
+}
+
+// パスフレーズの入力内容を検証し、問題があればメッセージを返す
+export function validatePassphrase(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== confirmation) {
+    return "Passphrases do not match";
+  }
+  return null;
+}
+
+// scryptは同期的に重い処理を行うため、ローディング表示を描画してから実行する
+export function waitForPaint(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+export function loadAutoLockMinutes(): number {
+  const stored = localStorage.getItem(AUTO_LOCK_STORAGE_KEY);
+  const minutes = Number(stored);
+  return stored !== null && AUTO_LOCK_OPTIONS.includes(minutes) ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+export function saveAutoLockMinutes(minutes: number) {
+  localStorage.setItem(AUTO_LOCK_STORAGE_KEY, String(minutes));
+}
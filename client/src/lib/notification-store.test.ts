@@ -0,0 +1,101 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { NostrEvent } from "@/hooks/use-nostr";
+import {
+  notificationStore,
+  resetNotificationStore,
+  syncNotificationSubscription,
+  type SubscribeEvents,
+} from "./notification-store";
+
+const SELF = "a".repeat(64);
+const OTHER = "b".repeat(64);
+
+// 購読ごとにイベントを流し込めるsubscribeEventsの代わり
+function createClient() {
+  const client = {
+    active: 0,
+    emit: (_event: NostrEvent) => {},
+    subscribeEvents: ((_filter, onEvent) => {
+      client.active++;
+      client.emit = onEvent;
+      return () => {
+        client.active--;
+        client.emit = () => {};
+      };
+    }) as SubscribeEvents,
+  };
+  return client;
+}
+
+function mention(id: string): NostrEvent {
+  return {
+    id,
+    pubkey: OTHER,
+    kind: 1,
+    content: "hi",
+    tags: [["p", SELF]],
+    created_at: 100,
+    sig: "",
+  } as NostrEvent;
+}
+
+function sync(pubkey: string, subscribeEvents: SubscribeEvents) {
+  syncNotificationSubscription({
+    pubkey,
+    subscribeEvents,
+    filter: { kinds: [1], "#p": [pubkey] },
+    toNotification: (event) => ({
+      id: event.id!,
+      type: "mention",
+      actor: event.pubkey,
+      targetId: event.id,
+      createdAt: event.created_at,
+      event,
+    }),
+    loadLastSeen: () => 50,
+  });
+}
+
+describe("syncNotificationSubscription", () => {
+  beforeEach(() => resetNotificationStore());
+
+  it("subscribes once while the client stays the same", () => {
+    const client = createClient();
+    sync(SELF, client.subscribeEvents);
+    sync(SELF, client.subscribeEvents);
+
+    assert.equal(client.active, 1);
+    assert.equal(notificationStore.lastSeen, 50);
+  });
+
+  it("resubscribes on the new client when the instance is replaced for the same pubkey", () => {
+    const disposed = createClient();
+    sync(SELF, disposed.subscribeEvents);
+    disposed.emit(mention("1"));
+
+    notificationStore.lastSeen = 80;
+    const replaced = createClient();
+    sync(SELF, replaced.subscribeEvents);
+    replaced.emit(mention("2"));
+
+    assert.equal(disposed.active, 0);
+    assert.equal(replaced.active, 1);
+    // 取得済みの通知と既読位置は保たれる
+    assert.deepEqual(Array.from(notificationStore.notifications.keys()), ["1", "2"]);
+    assert.equal(notificationStore.lastSeen, 80);
+  });
+
+  it("starts over when the pubkey changes", () => {
+    const first = createClient();
+    sync(SELF, first.subscribeEvents);
+    first.emit(mention("1"));
+
+    const second = createClient();
+    sync(OTHER, second.subscribeEvents);
+
+    assert.equal(first.active, 0);
+    assert.equal(second.active, 1);
+    assert.equal(notificationStore.notifications.size, 0);
+  });
+});
@@ -0,0 +1,94 @@
+import type { LazyFilter } from "rx-nostr";
+import type { NostrEvent } from "@/hooks/use-nostr";
+
+export type NotificationType = "reply" | "mention" | "reaction" | "repost" | "zap";
+
+export interface NostrNotification {
+  id: string;
+  type: NotificationType;
+  // 通知を発生させたユーザー（zapの場合はzapリクエストの送信者）
+  actor: string;
+  // 通知の対象となった自分のノート（メンションの場合はメンションしたノート自身）
+  targetId?: string;
+  createdAt: number;
+  event: NostrEvent;
+  amount?: number;
+}
+
+// useNostrのsubscribeEvents（Nostrクライアントが作り直されるたびに別の関数になる）
+export type SubscribeEvents = (
+  filters: LazyFilter,
+  onEvent: (event: NostrEvent) => void,
+) => () => void;
+
+// 通知はどのページでも購読し続けるため、フックのインスタンス間で共有する
+export const notificationStore = {
+  pubkey: null as string | null,
+  notifications: new Map<string, NostrNotification>(),
+  lastSeen: 0,
+  unsubscribe: null as (() => void) | null,
+  // 現在の購読に使っているsubscribeEvents
+  subscribeEvents: null as SubscribeEvents | null,
+  listeners: new Set<() => void>(),
+  // 変更のたびに増える値（メモ化の依存に使う）
+  version: 0,
+};
+
+export function emitChange() {
+  notificationStore.version++;
+  notificationStore.listeners.forEach((listener) => listener());
+}
+
+export function resetNotificationStore() {
+  notificationStore.unsubscribe?.();
+  notificationStore.unsubscribe = null;
+  notificationStore.subscribeEvents = null;
+  notificationStore.pubkey = null;
+  notificationStore.notifications = new Map();
+  notificationStore.lastSeen = 0;
+  emitChange();
+}
+
+// 自分宛ての通知を購読する
+// ユーザーが同じでも鍵のロック解除などでNostrクライアントが作り直された場合は、
+// 破棄されたクライアントの購読を解除し、取得済みの通知を保ったまま購読し直す
+export function syncNotificationSubscription({
+  pubkey,
+  subscribeEvents,
+  filter,
+  toNotification,
+  loadLastSeen,
+}: {
+  pubkey: string;
+  subscribeEvents: SubscribeEvents;
+  filter: LazyFilter;
+  toNotification: (event: NostrEvent, self: string) => NostrNotification | null;
+  loadLastSeen: (pubkey: string) => number;
+}) {
+  if (
+    notificationStore.pubkey === pubkey &&
+    notificationStore.subscribeEvents === subscribeEvents
+  ) {
+    return;
+  }
+
+  if (notificationStore.pubkey === pubkey) {
+    notificationStore.unsubscribe?.();
+  } else {
+    resetNotificationStore();
+    notificationStore.pubkey = pubkey;
+    notificationStore.lastSeen = loadLastSeen(pubkey);
+  }
+
+  notificationStore.subscribeEvents = subscribeEvents;
+  notificationStore.unsubscribe = subscribeEvents(filter, (event) => {
+    if (notificationStore.pubkey !== pubkey || notificationStore.notifications.has(event.id!)) {
+      return;
+    }
+    const notification = toNotification(event, pubkey);
+    if (!notification) return;
+    notificationStore.notifications.set(notification.id, notification);
+    emitChange();
+  });
+  emitChange();
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+
+// NIP-01/NIP-24: kind 0のプロフィール項目の編集
+// 他のクライアントが設定した未知の項目は編集せずにそのまま引き継ぐ
+
+export const PROFILE_FIELDS = [
+  { key: "name", label: "名前", placeholder: "あなたの名前" },
+  { key: "display_name", label: "表示名", placeholder: "表示用の名前" },
+  { key: "about", label: "自己紹介", placeholder: "あなたについて", multiline: true },
+  { key: "picture", label: "プロフィール画像URL", placeholder: "https://example.com/avatar.jpg" },
+  { key: "banner", label: "バナー画像URL", placeholder: "https://example.com/banner.jpg" },
+  { key: "website", label: "ウェブサイト", placeholder: "https://example.com" },
+  { key: "nip05", label: "NIP-05識別子", placeholder: "name@example.com" },
+  { key: "lud16", label: "ライトニングアドレス", placeholder: "name@wallet.example.com" },
+] as const;
+
+export type ProfileFieldKey = (typeof PROFILE_FIELDS)[number]["key"];
+export type ProfileFormValues = Record<ProfileFieldKey, string>;
+
+const PROFILE_FIELD_KEYS: readonly string[] = PROFILE_FIELDS.map((field) => field.key);
+
+const optionalUrl = z
+  .string()
+  .trim()
+  .refine((value) => !value || /^https?:\/\/\S+$/.test(value), "http(s)のURLを入力してください");
+
+const optionalAddress = (message: string) =>
+  z
+    .string()
+    .trim()
+    .refine((value) => !value || /^[\w.+-]+@[\w-]+(\.[\w-]+)+$/.test(value), message);
+
+export const profileFormSchema = z.object({
+  name: z.string().trim().max(100, "100文字以内で入力してください"),
+  display_name: z.string().trim().max(100, "100文字以内で入力してください"),
+  about: z.string().trim().max(2000, "2000文字以内で入力してください"),
+  picture: optionalUrl,
+  banner: optionalUrl,
+  website: optionalUrl,
+  nip05: optionalAddress("name@example.com の形式で入力してください"),
+  lud16: optionalAddress("name@example.com の形式で入力してください"),
+});
+
+// kind 0のcontentをオブジェクトとして読み込む（壊れている場合は空として扱う）
+export function parseProfileContent(content: string | undefined): Record<string, unknown> {
+  if (!content) return {};
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// フォームの初期値（文字列でない値は空欄にする）
+export function toProfileFormValues(profile: Record<string, unknown>): ProfileFormValues {
+  return Object.fromEntries(
+    PROFILE_FIELDS.map(({ key }) => {
+      const value = profile[key];
+      // 旧クライアントのdisplayNameもdisplay_nameとして読み込む
+      const fallback = key === "display_name" ? profile.displayName : undefined;
+      return [key, typeof value === "string" ? value : typeof fallback === "string" ? fallback : ""];
+    }),
+  ) as ProfileFormValues;
+}
+
+// フォームで編集しない項目
+export function getUnknownProfileFields(profile: Record<string, unknown>): [string, unknown][] {
+  return Object.entries(profile).filter(([key]) => !PROFILE_FIELD_KEYS.includes(key));
+}
+
+// 元のcontentに編集した項目を上書きする（空欄にした項目は削除する）
+export function mergeProfile(
+  original: Record<string, unknown>,
+  values: ProfileFormValues,
+): Record<string, unknown> {
+  const merged = { ...original };
+  PROFILE_FIELDS.forEach(({ key }) => {
+    const value = values[key].trim();
+    if (value) {
+      merged[key] = value;
+    } else if (typeof merged[key] === "string") {
+      delete merged[key];
+    }
+  });
+  // display_nameへ移行した旧項目は残さない
+  if (merged.display_name && typeof merged.displayName === "string") {
+    delete merged.displayName;
+  }
+  return merged;
+}
+
+export interface ProfileChange {
+  key: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// 公開前の確認用に変更された項目を列挙する
+export function diffProfile(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): ProfileChange[] {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({ key, before: before[key], after: after[key] }));
+}
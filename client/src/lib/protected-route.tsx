@@ -1,15 +1,16 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import UnlockPage from "@/pages/unlock-page";
 
 export function ProtectedRoute({
   path,
   component: Component,
 }: {
   path: string;
-  component: () => JSX.Element;
+  component: () => JSX.Element | null;
 }) {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, isLocked, needsPassphrase } = useAuth();
 
   return (
     <Route path={path}>
@@ -26,6 +27,11 @@ export function ProtectedRoute({
           return <Redirect to="/auth" />;
         }
 
+        // NIP-49: 秘密鍵を復号するまでは画面を表示しない
+        if (isLocked || needsPassphrase) {
+          return <UnlockPage />;
+        }
+
         return <Component />;
       }}
     </Route>
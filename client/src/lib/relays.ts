@@ -0,0 +1,75 @@
+import { Relay, relaySchema } from "@shared/schema";
+import { z } from "zod";
+
+export const DEFAULT_RELAYS: Relay[] = [
+  { url: "wss://r.kojira.io", read: true, write: true },
+  { url: "wss://x.kojira.io", read: true, write: true },
+];
+
+const RELAYS_STORAGE_KEY = "nostr_relays";
+
+function storageKey(pubkey?: string) {
+  return pubkey ? `${RELAYS_STORAGE_KEY}:${pubkey}` : RELAYS_STORAGE_KEY;
+}
+
+// ローカルストレージからリレー設定を読み込む（未設定・破損時はデフォルト）
+export function loadRelays(pubkey?: string): Relay[] {
+  try {
+    const stored = localStorage.getItem(storageKey(pubkey));
+    if (!stored) return DEFAULT_RELAYS;
+    return z.array(relaySchema).parse(JSON.parse(stored));
+  } catch (error) {
+    console.error("Error loading relays from localStorage:", error);
+    return DEFAULT_RELAYS;
+  }
+}
+
+export function hasStoredRelays(pubkey?: string): boolean {
+  return localStorage.getItem(storageKey(pubkey)) !== null;
+}
+
+export function saveRelays(pubkey: string | undefined, relays: Relay[]) {
+  localStorage.setItem(storageKey(pubkey), JSON.stringify(relays));
+}
+
+export function getReadRelayUrls(relays: Relay[]): string[] {
+  return relays.filter((relay) => relay.read).map((relay) => relay.url);
+}
+
+export function getWriteRelayUrls(relays: Relay[]): string[] {
+  return relays.filter((relay) => relay.write).map((relay) => relay.url);
+}
+
+// NIP-65: kind 10002のrタグをリレー設定に変換
+export function parseRelayListTags(tags: string[][]): Relay[] {
+  const relays = new Map<string, Relay>();
+  tags
+    .filter((tag) => tag[0] === "r" && tag[1])
+    .forEach(([, url, marker]) => {
+      const parsed = relaySchema.safeParse({
+        url,
+        read: marker !== "write",
+        write: marker !== "read",
+      });
+      if (!parsed.success) return;
+      // 同じURLが複数回現れた場合はフラグを合成する
+      const existing = relays.get(url);
+      relays.set(url, {
+        url,
+        read: parsed.data.read || !!existing?.read,
+        write: parsed.data.write || !!existing?.write,
+      });
+    });
+  return Array.from(relays.values());
+}
+
+// NIP-65: リレー設定をkind 10002のrタグに変換
+export function relayListToTags(relays: Relay[]): string[][] {
+  return relays
+    .filter((relay) => relay.read || relay.write)
+    .map((relay) =>
+      relay.read && relay.write
+        ? ["r", relay.url]
+        : ["r", relay.url, relay.read ? "read" : "write"],
+    );
+}
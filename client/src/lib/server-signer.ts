@@ -0,0 +1,28 @@
+import type { EventSigner } from "rx-nostr";
+import { verifyEvent, type NostrEvent } from "nostr-tools";
+import { apiRequest } from "./queryClient";
+
+// サーバーに保管している鍵で署名するrx-nostr用のサイナー（ユーザー名・パスワードでのログイン）
+// 署名を許可するkindはサーバー側でユーザーごとに制限される
+export function serverSigner(publicKey: string): EventSigner {
+  return {
+    async getPublicKey() {
+      return publicKey;
+    },
+    async signEvent(params) {
+      const res = await apiRequest("POST", "/api/sign", {
+        kind: params.kind,
+        content: params.content,
+        tags: params.tags ?? [],
+        created_at: params.created_at ?? Math.floor(Date.now() / 1000),
+      });
+      const event = (await res.json()) as NostrEvent;
+
+      // 別の鍵で署名されたイベントや改ざんされたイベントは送信しない
+      if (event.pubkey !== publicKey || event.kind !== params.kind || !verifyEvent(event)) {
+        throw new Error("Server returned an invalid signed event");
+      }
+      return { ...event, kind: params.kind };
+    },
+  };
+}
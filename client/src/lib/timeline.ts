@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// ホームタイムラインの表示モード
+export const timelineModeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("following") }),
+  z.object({ type: z.literal("global") }),
+  z.object({ type: z.literal("relay"), url: z.string().url() }),
+]);
+
+export type TimelineMode = z.infer<typeof timelineModeSchema>;
+
+export const DEFAULT_TIMELINE_MODE: TimelineMode = { type: "following" };
+
+// 大きなコンタクトリストはリレーの制限に収まるよう複数のREQに分割する
+export const AUTHORS_CHUNK_SIZE = 100;
+
+const TIMELINE_MODE_STORAGE_KEY = "nostr_timeline_mode";
+
+function storageKey(pubkey?: string) {
+  return pubkey ? `${TIMELINE_MODE_STORAGE_KEY}:${pubkey}` : TIMELINE_MODE_STORAGE_KEY;
+}
+
+export function loadTimelineMode(pubkey?: string): TimelineMode {
+  try {
+    const stored = localStorage.getItem(storageKey(pubkey));
+    if (!stored) return DEFAULT_TIMELINE_MODE;
+    return timelineModeSchema.parse(JSON.parse(stored));
+  } catch (error) {
+    console.error("Error loading timeline mode from localStorage:", error);
+    return DEFAULT_TIMELINE_MODE;
+  }
+}
+
+export function saveTimelineMode(pubkey: string | undefined, mode: TimelineMode) {
+  localStorage.setItem(storageKey(pubkey), JSON.stringify(mode));
+}
+
+// モードを比較・依存配列に使うための文字列表現
+export function getTimelineKey(mode: TimelineMode): string {
+  return mode.type === "relay" ? `relay:${mode.url}` : mode.type;
+}
+
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
+import type { NostrEvent } from "@/hooks/use-nostr";
+import { getBolt11Msats, parseZapReceipt } from "./zap";
+
+const SELF = "a".repeat(64);
+const OTHER = "b".repeat(64);
+const LNURL_SERVER = "c".repeat(64);
+
+const senderKey = generateSecretKey();
+const SENDER = getPublicKey(senderKey);
+
+// BOLT11の仕様にある例のインボイス（金額は2500u = 250,000サトシ）
+const INVOICE =
+  "lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh";
+
+function zapReceipt(request: { p?: string; amount?: number }, bolt11 = INVOICE): NostrEvent {
+  const tags = [["relays", "wss://relay.example.com"]];
+  if (request.p) tags.push(["p", request.p]);
+  if (request.amount !== undefined) tags.push(["amount", String(request.amount)]);
+  const zapRequest = finalizeEvent(
+    { kind: 9734, content: "", tags, created_at: 100 },
+    senderKey,
+  );
+  return {
+    id: "d".repeat(64),
+    pubkey: LNURL_SERVER,
+    kind: 9735,
+    content: "",
+    tags: [
+      ["p", SELF],
+      ["bolt11", bolt11],
+      ["description", JSON.stringify(zapRequest)],
+    ],
+    created_at: 101,
+    sig: "",
+  } as NostrEvent;
+}
+
+describe("getBolt11Msats", () => {
+  it("reads the amount from the human-readable part", () => {
+    assert.equal(getBolt11Msats(INVOICE), 250_000_000);
+    assert.equal(getBolt11Msats("lnbc1m1xyz"), 100_000_000);
+    assert.equal(getBolt11Msats("lnbc210n1xyz"), 21_000);
+    assert.equal(getBolt11Msats("lntb20p1xyz"), 2);
+    assert.equal(getBolt11Msats("LNBC2500U1XYZ"), 250_000_000);
+  });
+
+  it("returns null for invoices without a valid amount", () => {
+    for (const invoice of ["", "lnbc1xyz", "lnbc25p1xyz", "lnbc0u1xyz", "bc2500u1xyz", "lnbc2500x1xyz"]) {
+      assert.equal(getBolt11Msats(invoice), null, invoice);
+    }
+  });
+});
+
+describe("parseZapReceipt", () => {
+  it("returns the sender and the amount when the invoice matches the request", () => {
+    assert.deepEqual(parseZapReceipt(zapReceipt({ p: SELF, amount: 250_000_000 }), SELF), {
+      sender: SENDER,
+      amount: 250_000,
+    });
+  });
+
+  it("omits the amount when it does not match the invoice", () => {
+    const receipt = parseZapReceipt(zapReceipt({ p: SELF, amount: 1_000_000_000 }), SELF);
+    assert.deepEqual(receipt, { sender: SENDER, amount: undefined });
+    assert.equal(parseZapReceipt(zapReceipt({ p: SELF }), SELF)?.amount, undefined);
+    assert.equal(
+      parseZapReceipt(zapReceipt({ p: SELF, amount: 250_000_000 }, "lnbc1xyz"), SELF)?.amount,
+      undefined,
+    );
+  });
+
+  it("rejects zap requests addressed to someone else", () => {
+    assert.equal(parseZapReceipt(zapReceipt({ p: OTHER, amount: 250_000_000 }), SELF), null);
+  });
+
+  it("rejects missing or invalid zap requests", () => {
+    assert.equal(parseZapReceipt(zapReceipt({ amount: 250_000_000 }), SELF), null);
+
+    const tampered = zapReceipt({ p: SELF, amount: 250_000_000 });
+    const description = tampered.tags.find((tag) => tag[0] === "description")!;
+    description[1] = description[1].replace(SENDER, OTHER);
+    assert.equal(parseZapReceipt(tampered, SELF), null);
+
+    tampered.tags = tampered.tags.filter((tag) => tag[0] !== "description");
+    assert.equal(parseZapReceipt(tampered, SELF), null);
+  });
+});
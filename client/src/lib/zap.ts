@@ -0,0 +1,52 @@
+import { nip57 } from "nostr-tools";
+import type { NostrEvent } from "@/hooks/use-nostr";
+
+// NIP-57: zapレシートの検証
+// レシートはLNURLサーバーが署名するため、埋め込まれたzapリクエストとインボイスを突き合わせる
+
+// BOLT11の金額の単位ごとのミリサトシ（単位なしはBTC）
+const BOLT11_MULTIPLIERS: Record<string, number> = {
+  "": 100_000_000_000,
+  m: 100_000_000,
+  u: 100_000,
+  n: 100,
+};
+
+// BOLT11インボイスの金額をミリサトシで返す（金額の指定がない・不正な場合はnull）
+export function getBolt11Msats(invoice: string): number | null {
+  const normalized = invoice.trim().toLowerCase();
+  const separator = normalized.lastIndexOf("1");
+  if (separator <= 0) return null;
+
+  const match = normalized.slice(0, separator).match(/^ln[a-z]+?(\d+)([munp]?)$/);
+  if (!match) return null;
+  const [, digits, multiplier] = match;
+  const value = Number(digits);
+  if (!Number.isSafeInteger(value) || value <= 0) return null;
+
+  // ピコBTCは0.1ミリサトシ単位のため、端数が出るものは不正とする
+  if (multiplier === "p") return value % 10 === 0 ? value / 10 : null;
+  return value * BOLT11_MULTIPLIERS[multiplier];
+}
+
+// zapレシートを検証し、送信者と金額（サトシ）を返す
+// zapリクエストが不正、または宛先が自分でない場合はnull
+// 金額はインボイスとzapリクエストの金額が一致する場合のみ返す
+export function parseZapReceipt(
+  event: NostrEvent,
+  recipient: string,
+): { sender: string; amount?: number } | null {
+  const description = event.tags.find((tag) => tag[0] === "description")?.[1];
+  if (!description || nip57.validateZapRequest(description) !== null) return null;
+
+  const zapRequest = JSON.parse(description) as NostrEvent;
+  if (zapRequest.tags.find((tag) => tag[0] === "p")?.[1] !== recipient) return null;
+
+  const requested = Number(zapRequest.tags.find((tag) => tag[0] === "amount")?.[1]);
+  const bolt11 = event.tags.find((tag) => tag[0] === "bolt11")?.[1];
+  const invoiced = bolt11 ? getBolt11Msats(bolt11) : null;
+  return {
+    sender: zapRequest.pubkey!,
+    amount: invoiced !== null && invoiced === requested ? Math.floor(invoiced / 1000) : undefined,
+  };
+}
@@ -1,12 +1,30 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { useAuth } from "@/hooks/use-auth";
 import { Redirect } from "wouter";
-import { Loader2, Key, Plug } from "lucide-react";
+import { Loader2, Key, Plug, LogIn, Smartphone } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import Nip46LoginDialog from "@/components/nip46-login-dialog";
+import GenerateKeysDialog from "@/components/generate-keys-dialog";
+import ImportKeyDialog from "@/components/import-key-dialog";
 
 export default function AuthPage() {
-  const { user, loginWithExtension, generateNewKeys, isLoading } = useAuth();
+  const {
+    user,
+    loginWithExtension,
+    loginWithPassword,
+    registerWithPassword,
+    isLoading,
+  } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [showRemoteSigner, setShowRemoteSigner] = useState(false);
+  const [showGenerateKeys, setShowGenerateKeys] = useState(false);
+  const [showImportKey, setShowImportKey] = useState(false);
 
   if (user) {
     return <Redirect to="/" />;
@@ -34,6 +52,16 @@ export default function AuthPage() {
                 Connect with Extension
               </Button>
 
+              <Button
+                variant="outline"
+                className="w-full h-12 text-lg"
+                onClick={() => setShowRemoteSigner(true)}
+                disabled={isLoading}
+              >
+                <Smartphone className="mr-2 h-5 w-5" />
+                Connect with Remote Signer
+              </Button>
+
               <div className="relative">
                 <div className="absolute inset-0 flex items-center">
                   <span className="w-full border-t" />
@@ -48,26 +76,99 @@ export default function AuthPage() {
               <Button 
                 variant="outline" 
                 className="w-full h-12 text-lg"
-                onClick={generateNewKeys}
+                onClick={() => setShowGenerateKeys(true)}
                 disabled={isLoading}
               >
-                {isLoading ? (
-                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                ) : (
-                  <Key className="mr-2 h-5 w-5" />
-                )}
+                <Key className="mr-2 h-5 w-5" />
                 Generate New Keys
               </Button>
+              <Button
+                variant="link"
+                className="w-full"
+                onClick={() => setShowImportKey(true)}
+                disabled={isLoading}
+              >
+                Import an encrypted key (ncryptsec)
+              </Button>
+
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <span className="w-full border-t" />
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-background px-2 text-muted-foreground">
+                    Or use an account
+                  </span>
+                </div>
+              </div>
+
+              {/* サーバーに鍵を預けるアカウント（署名はサーバーが行う） */}
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  const submit = isRegistering ? registerWithPassword : loginWithPassword;
+                  submit(username.trim(), password);
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete={isRegistering ? "new-password" : "current-password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="secondary"
+                  className="w-full"
+                  disabled={isLoading || !username.trim() || !password}
+                >
+                  {isLoading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <LogIn className="mr-2 h-4 w-4" />
+                  )}
+                  {isRegistering ? "Create Account" : "Log In"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={() => setIsRegistering(!isRegistering)}
+                >
+                  {isRegistering
+                    ? "Already have an account? Log in"
+                    : "No account? Create one"}
+                </Button>
+              </form>
             </div>
 
             <Alert>
               <AlertDescription>
-                Use a Nostr browser extension like nos2x or Alby for the best experience. 
-                If you don't have one installed, you can generate new keys, but make sure to save them securely!
+                Use a Nostr browser extension like nos2x or Alby for the best experience.
+                On mobile, connect a remote signer app such as Amber or nsec.app instead of pasting your key.
+                If you don't have either, you can generate new keys. They are stored encrypted with your passphrase,
+                so export the ncryptsec from the menu to back them up.
               </AlertDescription>
             </Alert>
           </CardContent>
         </Card>
+        <Nip46LoginDialog open={showRemoteSigner} onOpenChange={setShowRemoteSigner} />
+        <GenerateKeysDialog open={showGenerateKeys} onOpenChange={setShowGenerateKeys} />
+        <ImportKeyDialog open={showImportKey} onOpenChange={setShowImportKey} />
       </div>
       <div className="hidden md:flex bg-primary items-center justify-center p-8">
         <div className="text-primary-foreground max-w-md space-y-4">
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useNostr, useUserMetadata } from "@/hooks/use-nostr";
+import { useDirectMessages } from "@/hooks/use-direct-messages";
+import Navbar from "@/components/navbar";
+import PostForm from "@/components/post-form";
+import NoteContent from "@/components/note-content";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { encodeNpub, resolveProfilePointer, shortNpub } from "@/lib/nip19";
+
+export default function ConversationPage() {
+  const { pubkey: pubkeyParam } = useParams<{ pubkey: string }>();
+  // hex・npub・nprofileのいずれでも受け付ける
+  const partner = useMemo(
+    () => (pubkeyParam ? resolveProfilePointer(pubkeyParam)?.pubkey : undefined),
+    [pubkeyParam],
+  );
+  const { user } = useAuth();
+  const { loadPostMetadata } = useNostr();
+  const metadata = useUserMetadata(partner);
+  const { isSupported, isLoading, getConversation, sendMessage, isSending } = useDirectMessages();
+  const [, setLocation] = useLocation();
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const messages = partner ? getConversation(partner) : [];
+
+  useEffect(() => {
+    if (partner) loadPostMetadata(partner);
+  }, [partner, loadPostMetadata]);
+
+  // 新着メッセージが届いたら末尾までスクロール
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  const handleSend = useCallback(
+    (content: string) => {
+      if (!partner) return;
+      sendMessage({ recipient: partner, content }).catch(() => {
+        // エラー表示はuseDirectMessages側のトーストで行う
+      });
+    },
+    [partner, sendMessage],
+  );
+
+  if (!partner) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <p className="text-center text-muted-foreground py-8">
+          公開鍵が不正です
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <main className="max-w-2xl mx-auto space-y-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => setLocation("/messages")}>
+              <ArrowLeft className="h-5 w-5" />
+              <span className="sr-only">メッセージ一覧へ戻る</span>
+            </Button>
+            <h2
+              className="text-xl font-semibold cursor-pointer hover:underline"
+              onClick={() => setLocation(`/profile/${encodeNpub(partner)}`)}
+            >
+              {metadata?.name || shortNpub(partner)}
+            </h2>
+          </div>
+
+          {!isSupported ? (
+            <p className="text-center text-muted-foreground py-4">
+              このログイン方法ではメッセージを利用できません
+            </p>
+          ) : (
+            <>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[...Array(3)].map((_, i) => (
+                    <Skeleton key={i} className="h-12" />
+                  ))}
+                </div>
+              ) : messages.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">
+                  メッセージはありません
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {messages.map((message) => {
+                    const isMine = message.sender === user?.publicKey;
+                    return (
+                      <div
+                        key={message.id}
+                        className={cn("flex", isMine ? "justify-end" : "justify-start")}
+                      >
+                        <div
+                          className={cn(
+                            "max-w-[80%] rounded-lg px-3 py-2 space-y-1",
+                            isMine ? "bg-primary text-primary-foreground" : "bg-muted",
+                          )}
+                        >
+                          <NoteContent content={message.content} />
+                          <div className="text-xs opacity-70">
+                            {format(new Date(message.createdAt * 1000), "yyyy/MM/dd HH:mm")}
+                            {message.protocol === "nip04" && " · NIP-04"}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <div ref={bottomRef} />
+              <PostForm
+                onSubmit={handleSend}
+                isSubmitting={isSending}
+                placeholder="メッセージを入力..."
+                submitLabel="送信"
+              />
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useParams } from "wouter";
+import { useNostr } from "@/hooks/use-nostr";
+import { useEffect, useRef, useState } from "react";
+import PostCard from "@/components/post-card";
+import Navbar from "@/components/navbar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Post } from "@shared/schema";
+import { useInView } from "react-intersection-observer";
+
+const PAGE_SIZE = 30;
+
+export default function HashtagPage() {
+  const { tag: tagParam } = useParams<{ tag: string }>();
+  const tag = tagParam ? decodeURIComponent(tagParam) : "";
+  const { fetchHashtagPosts, isLoadingPosts: isClientLoading } = useNostr();
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [isLoadingPosts, setIsLoadingPosts] = useState(true);
+  const [hasMore, setHasMore] = useState(true);
+  const lastTimestamp = useRef<number>();
+
+  // 無限スクロール用のintersection observer
+  const { ref: loadMoreRef, inView } = useInView({
+    threshold: 0,
+  });
+
+  // 初期投稿の読み込み
+  useEffect(() => {
+    if (!tag || isClientLoading) return;
+
+    let cancelled = false;
+    const loadInitialPosts = async () => {
+      setIsLoadingPosts(true);
+      setPosts([]);
+      try {
+        const initialPosts = await fetchHashtagPosts({ tag, limit: PAGE_SIZE });
+        if (cancelled) return;
+        console.info(`[Hashtag] Loaded ${initialPosts.length} posts for #${tag}`);
+        setPosts(initialPosts);
+        setHasMore(initialPosts.length === PAGE_SIZE);
+        if (initialPosts.length > 0) {
+          const oldestPost = initialPosts[initialPosts.length - 1];
+          lastTimestamp.current = Math.floor(new Date(oldestPost.createdAt).getTime() / 1000);
+        }
+      } catch (error) {
+        console.error("[Hashtag] Failed to load posts:", error);
+      } finally {
+        if (!cancelled) setIsLoadingPosts(false);
+      }
+    };
+
+    loadInitialPosts();
+    return () => {
+      cancelled = true;
+    };
+  }, [tag, isClientLoading, fetchHashtagPosts]);
+
+  // 無限スクロール
+  useEffect(() => {
+    if (!inView || isLoadingPosts || !hasMore || !lastTimestamp.current) return;
+
+    const loadMorePosts = async () => {
+      setIsLoadingPosts(true);
+      try {
+        const morePosts = await fetchHashtagPosts({
+          tag,
+          until: lastTimestamp.current! - 1,
+          limit: PAGE_SIZE,
+        });
+        if (morePosts.length > 0) {
+          setPosts((prev) => [...prev, ...morePosts]);
+          const oldestPost = morePosts[morePosts.length - 1];
+          lastTimestamp.current = Math.floor(new Date(oldestPost.createdAt).getTime() / 1000);
+        }
+        setHasMore(morePosts.length === PAGE_SIZE);
+      } catch (error) {
+        console.error("[Hashtag] Failed to load more posts:", error);
+      } finally {
+        setIsLoadingPosts(false);
+      }
+    };
+
+    loadMorePosts();
+  }, [inView, isLoadingPosts, hasMore, tag, fetchHashtagPosts]);
+
+  if (!tag) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <main className="max-w-2xl mx-auto space-y-4">
+          <h2 className="text-xl font-semibold">#{tag}</h2>
+          {isLoadingPosts && posts.length === 0 ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-32" />
+              ))}
+            </div>
+          ) : (
+            <>
+              <div className="space-y-4">
+                {posts.map((post) => (
+                  <PostCard key={post.nostrEventId} post={post} />
+                ))}
+              </div>
+              {hasMore && posts.length > 0 && (
+                <div ref={loadMoreRef} className="py-4">
+                  {isLoadingPosts && <Skeleton className="h-32" />}
+                </div>
+              )}
+              {posts.length === 0 && (
+                <p className="text-center text-muted-foreground py-4">
+                  投稿が見つかりません
+                </p>
+              )}
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
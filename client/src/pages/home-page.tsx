@@ -1,13 +1,196 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useNostr } from "@/hooks/use-nostr";
+import { useNostr, getRepostedEventId } from "@/hooks/use-nostr";
+import { useTimeline } from "@/hooks/use-timeline";
 import PostCard from "@/components/post-card";
+import RepostCard from "@/components/repost-card";
 import PostForm from "@/components/post-form";
 import Navbar from "@/components/navbar";
-import { Loader2 } from "lucide-react";
+import VirtualList from "@/components/virtual-list";
+import { ArrowUp, Loader2 } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useInView } from "react-intersection-observer";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getReadRelayUrls } from "@/lib/relays";
+import {
+  getTimelineKey,
+  loadTimelineMode,
+  saveTimelineMode,
+  type TimelineMode,
+} from "@/lib/timeline";
+import { Post } from "@shared/schema";
+
+// メモリに保持するタイムライン投稿の上限
+const MAX_TIMELINE_POSTS = 500;
+// 描画範囲の上下に破棄せず残しておく投稿数
+const EVICTION_MARGIN = 50;
+// この位置より上までスクロールしていれば新着を即座に表示する（px）
+const TOP_THRESHOLD = 100;
+
+const getPostTime = (post: Post) => new Date(post.createdAt).getTime();
+const getPostKey = (post: Post) => post.nostrEventId;
 
 export default function HomePage() {
   const { user } = useAuth();
-  const { posts, isLoadingPosts, createPost, isCreatingPost } = useNostr();
+  const [timelineMode, setTimelineMode] = useState<TimelineMode>(() =>
+    loadTimelineMode(user?.publicKey),
+  );
+  const { createPost, isCreatingPost, relays, followingCount } = useNostr();
+  const {
+    posts,
+    isLoadingPosts,
+    loadMoreTimeline,
+    loadNewerTimeline,
+    hasEvictedNewer,
+    evictTimelinePosts,
+  } = useTimeline(timelineMode);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isLoadingNewer, setIsLoadingNewer] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [isAtTop, setIsAtTop] = useState(true);
+  // スクロール中は、この時刻より新しい投稿を表示せず新着として保留する
+  const [newestShownAt, setNewestShownAt] = useState<number | null>(null);
+  const renderedRange = useRef({ start: 0, end: 0 });
+
+  // 無限スクロール用のintersection observer
+  const { ref: loadMoreRef, inView } = useInView({
+    threshold: 0,
+  });
+  // 上側で破棄した投稿の再取得用。描画範囲に入る前に取得しておく
+  const { ref: loadNewerRef, inView: isNewerInView } = useInView({
+    threshold: 0,
+    rootMargin: "800px 0px 0px 0px",
+  });
+
+  // モード切り替え時はページングをやり直す
+  useEffect(() => {
+    setHasMore(true);
+    setNewestShownAt(null);
+  }, [timelineMode]);
+
+  useEffect(() => {
+    const handleScroll = () => setIsAtTop(window.scrollY < TOP_THRESHOLD);
+    handleScroll();
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    return () => window.removeEventListener("scroll", handleScroll);
+  }, []);
+
+  // 先頭にいる間は新着をそのまま表示し、スクロールしたら表示済みの最新時刻で固定する
+  // 上側で破棄した投稿を取得し直すまでは、新着を間に挟まないよう固定したままにする
+  useEffect(() => {
+    if (isAtTop && !hasEvictedNewer) {
+      setNewestShownAt(null);
+    } else if (posts.length > 0) {
+      setNewestShownAt((current) => current ?? getPostTime(posts[0]));
+    }
+  }, [isAtTop, hasEvictedNewer, posts]);
+
+  const displayedPosts = useMemo(
+    () =>
+      newestShownAt === null
+        ? posts
+        : posts.filter((post) => getPostTime(post) <= newestShownAt),
+    [posts, newestShownAt],
+  );
+  const pendingCount = posts.length - displayedPosts.length;
+
+  const handleRangeChange = useCallback((start: number, end: number) => {
+    renderedRange.current = { start, end };
+  }, []);
+
+  // 上限を超えたら、描画範囲を含む上限件数分だけを残して上下の投稿を破棄する
+  // 先頭から残せる場合は下側の古い投稿から破棄し、深くスクロールしている場合は上側も破棄する
+  // （上側を破棄しても、VirtualListが表示中の投稿を基準にスクロール位置を補正する）
+  useEffect(() => {
+    if (displayedPosts.length <= MAX_TIMELINE_POSTS) return;
+    const { start, end } = renderedRange.current;
+    const keepFrom = Math.max(
+      0,
+      Math.min(end + EVICTION_MARGIN - MAX_TIMELINE_POSTS, start - EVICTION_MARGIN),
+    );
+    const keepUntil = Math.max(keepFrom + MAX_TIMELINE_POSTS, end + EVICTION_MARGIN);
+    const evictedAbove = displayedPosts.slice(0, keepFrom);
+    const evictedBelow = displayedPosts.slice(keepUntil);
+    evictTimelinePosts(evictedAbove, "above");
+    if (evictedBelow.length > 0) {
+      evictTimelinePosts(evictedBelow, "below");
+      // 破棄した範囲は無限スクロールで再取得する
+      setHasMore(true);
+    }
+  }, [displayedPosts, evictTimelinePosts]);
+
+  // 上方向へのスクロールで、上側で破棄した投稿を取得し直す
+  useEffect(() => {
+    if (!isNewerInView || isLoadingNewer || !hasEvictedNewer) return;
+
+    const loadNewerPosts = async () => {
+      setIsLoadingNewer(true);
+      try {
+        const count = await loadNewerTimeline();
+        console.info(`[Home] Reloaded ${count} newer posts`);
+      } catch (error) {
+        console.error("[Home] Failed to reload newer posts:", error);
+      } finally {
+        setIsLoadingNewer(false);
+      }
+    };
+
+    loadNewerPosts();
+  }, [isNewerInView, isLoadingNewer, hasEvictedNewer, loadNewerTimeline]);
+
+  // 無限スクロール
+  useEffect(() => {
+    if (!inView || isLoadingPosts || isLoadingMore || !hasMore || posts.length === 0) return;
+
+    const loadMorePosts = async () => {
+      setIsLoadingMore(true);
+      try {
+        const count = await loadMoreTimeline();
+        console.info(`[Home] Loaded ${count} older posts`);
+        setHasMore(count > 0);
+      } catch (error) {
+        console.error("[Home] Failed to load more posts:", error);
+      } finally {
+        setIsLoadingMore(false);
+      }
+    };
+
+    loadMorePosts();
+  }, [inView, isLoadingPosts, isLoadingMore, hasMore, posts.length, loadMoreTimeline]);
+
+  // 選択肢: フォロー中・グローバル・読み取りリレーごと
+  const modeOptions = useMemo(() => {
+    const relayUrls = getReadRelayUrls(relays);
+    if (timelineMode.type === "relay" && !relayUrls.includes(timelineMode.url)) {
+      relayUrls.push(timelineMode.url);
+    }
+    const options: { mode: TimelineMode; label: string }[] = [
+      { mode: { type: "following" }, label: "フォロー中" },
+      { mode: { type: "global" }, label: "グローバル" },
+      ...relayUrls.map((url) => ({ mode: { type: "relay" as const, url }, label: url })),
+    ];
+    return options;
+  }, [relays, timelineMode]);
+
+  const handleModeChange = (key: string) => {
+    const option = modeOptions.find(({ mode }) => getTimelineKey(mode) === key);
+    if (!option) return;
+    setTimelineMode(option.mode);
+    saveTimelineMode(user?.publicKey, option.mode);
+  };
+
+  // リポスト元をタイムライン内から探すためのインデックス
+  const postsById = useMemo(
+    () => new Map(posts.map((post) => [post.nostrEventId, post])),
+    [posts],
+  );
 
   if (!user) return null;
 
@@ -18,18 +201,72 @@ export default function HomePage() {
         <main className="max-w-2xl mx-auto space-y-6">
           <PostForm onSubmit={createPost} isSubmitting={isCreatingPost} />
 
+          <Select value={getTimelineKey(timelineMode)} onValueChange={handleModeChange}>
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue placeholder="タイムライン" />
+            </SelectTrigger>
+            <SelectContent>
+              {modeOptions.map(({ mode, label }) => (
+                <SelectItem key={getTimelineKey(mode)} value={getTimelineKey(mode)}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           {isLoadingPosts ? (
             <div className="flex justify-center p-8">
               <Loader2 className="h-8 w-8 animate-spin" />
             </div>
           ) : (
-            <div className="space-y-4">
-              {posts.map((post) => (
-                <PostCard 
-                  key={`${post.nostrEventId}-${post.userId}`}
-                  post={post}
-                />
-              ))}
+            <div>
+              {pendingCount > 0 && (
+                // 高さを持たせず、表示中の投稿を押し下げないようにする
+                <div className="sticky top-16 z-40 flex h-0 justify-center overflow-visible">
+                  <Button
+                    size="sm"
+                    className="rounded-full shadow-md"
+                    onClick={() => window.scrollTo({ top: 0, behavior: "smooth" })}
+                  >
+                    <ArrowUp className="mr-1 h-4 w-4" />
+                    {pendingCount}件の新しい投稿
+                  </Button>
+                </div>
+              )}
+              {hasEvictedNewer && (
+                <div ref={loadNewerRef} className="pb-4">
+                  {isLoadingNewer && <Skeleton className="h-32" />}
+                </div>
+              )}
+              <VirtualList
+                items={displayedPosts}
+                getKey={getPostKey}
+                onRangeChange={handleRangeChange}
+                renderItem={(post) => (
+                  <div className="pb-4">
+                    {post.metadata?.kind === 6 ? (
+                      <RepostCard
+                        repost={post}
+                        original={postsById.get(getRepostedEventId(post) ?? "")}
+                      />
+                    ) : (
+                      <PostCard post={post} />
+                    )}
+                  </div>
+                )}
+              />
+              {hasMore && posts.length > 0 && (
+                <div ref={loadMoreRef} className="py-4">
+                  {isLoadingMore && <Skeleton className="h-32" />}
+                </div>
+              )}
+              {posts.length === 0 && (
+                <p className="text-center text-muted-foreground py-4">
+                  {timelineMode.type === "following" && followingCount === 0
+                    ? "まだ誰もフォローしていません"
+                    : "投稿が見つかりません"}
+                </p>
+              )}
             </div>
           )}
         </main>
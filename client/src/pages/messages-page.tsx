@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { useNostr, useUserMetadata } from "@/hooks/use-nostr";
+import { useDirectMessages, type Conversation } from "@/hooks/use-direct-messages";
+import Navbar from "@/components/navbar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { encodeNpub, resolveProfilePointer, shortNpub } from "@/lib/nip19";
+
+function ConversationItem({ conversation }: { conversation: Conversation }) {
+  const { loadPostMetadata } = useNostr();
+  const [, setLocation] = useLocation();
+  const { partner, lastMessage } = conversation;
+
+  useEffect(() => {
+    loadPostMetadata(partner);
+  }, [partner, loadPostMetadata]);
+
+  const metadata = useUserMetadata(partner);
+
+  return (
+    <Card
+      className="cursor-pointer hover:bg-muted/50"
+      onClick={() => setLocation(`/messages/${encodeNpub(partner)}`)}
+    >
+      <CardContent className="flex items-center gap-3 p-4">
+        <Avatar>
+          {metadata?.picture ? (
+            <AvatarImage src={metadata.picture} alt={metadata.name} />
+          ) : (
+            <AvatarFallback>
+              {(metadata?.name?.[0] || partner.slice(0, 2)).toUpperCase()}
+            </AvatarFallback>
+          )}
+        </Avatar>
+        <div className="min-w-0 flex-grow">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold truncate">{metadata?.name || shortNpub(partner)}</span>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {format(new Date(lastMessage.createdAt * 1000), "yyyy/MM/dd HH:mm")}
+            </span>
+          </div>
+          <p className="text-sm text-muted-foreground truncate">{lastMessage.content}</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MessagesPage() {
+  const { isSupported, isLoading, conversations } = useDirectMessages();
+  const [, setLocation] = useLocation();
+  const [recipient, setRecipient] = useState("");
+
+  // npub・nprofile・hexのいずれかで新しい会話を開始する
+  const pointer = recipient.trim() ? resolveProfilePointer(recipient.trim()) : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <main className="max-w-2xl mx-auto space-y-4">
+          <h2 className="text-xl font-semibold">メッセージ</h2>
+          {!isSupported ? (
+            <p className="text-center text-muted-foreground py-4">
+              このログイン方法ではメッセージを利用できません
+            </p>
+          ) : (
+            <>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (pointer) setLocation(`/messages/${encodeNpub(pointer.pubkey)}`);
+                }}
+              >
+                <Input
+                  placeholder="npub1..."
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                />
+                <Button type="submit" disabled={!pointer}>
+                  新しいメッセージ
+                </Button>
+              </form>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[...Array(3)].map((_, i) => (
+                    <Skeleton key={i} className="h-20" />
+                  ))}
+                </div>
+              ) : conversations.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">
+                  メッセージはありません
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {conversations.map((conversation) => (
+                    <ConversationItem key={conversation.partner} conversation={conversation} />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
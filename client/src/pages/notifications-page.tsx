@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { AtSign, Heart, MessageSquare, Repeat2, Zap } from "lucide-react";
+import { useNostr, useUserMetadata, eventToPost } from "@/hooks/use-nostr";
+import {
+  useNotifications,
+  type NotificationGroup,
+  type NotificationType,
+} from "@/hooks/use-notifications";
+import Navbar from "@/components/navbar";
+import PostCard from "@/components/post-card";
+import { EmbeddedNote } from "@/components/note-content";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { encodeNpub, shortNpub } from "@/lib/nip19";
+
+// まとめて表示するアクターのアバター数の上限
+const MAX_ACTOR_AVATARS = 8;
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  reply: "が返信しました",
+  mention: "がメンションしました",
+  reaction: "がリアクションしました",
+  repost: "がリポストしました",
+  zap: "がzapしました",
+};
+
+const TYPE_ICONS: Record<NotificationType, typeof Heart> = {
+  reply: MessageSquare,
+  mention: AtSign,
+  reaction: Heart,
+  repost: Repeat2,
+  zap: Zap,
+};
+
+function ActorAvatar({ pubkey }: { pubkey: string }) {
+  const { loadPostMetadata } = useNostr();
+  const metadata = useUserMetadata(pubkey);
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    loadPostMetadata(pubkey);
+  }, [pubkey, loadPostMetadata]);
+
+  return (
+    <Avatar
+      className="h-8 w-8 cursor-pointer"
+      onClick={() => setLocation(`/profile/${encodeNpub(pubkey)}`)}
+    >
+      {metadata?.picture ? (
+        <AvatarImage src={metadata.picture} alt={metadata.name} />
+      ) : (
+        <AvatarFallback className="text-xs">
+          {(metadata?.name?.[0] || pubkey.slice(0, 2)).toUpperCase()}
+        </AvatarFallback>
+      )}
+    </Avatar>
+  );
+}
+
+function ActorName({ pubkey }: { pubkey: string }) {
+  const metadata = useUserMetadata(pubkey);
+  return <span className="font-semibold">{metadata?.name || shortNpub(pubkey)}</span>;
+}
+
+function NotificationGroupCard({ group, lastSeen }: { group: NotificationGroup; lastSeen: number }) {
+  const actors = Array.from(new Set(group.notifications.map((n) => n.actor)));
+  const isUnread = group.latestAt > lastSeen;
+  const Icon = TYPE_ICONS[group.type];
+
+  // 返信とメンションは本文そのものを投稿として表示する
+  if (group.type === "reply" || group.type === "mention") {
+    return (
+      <div className="space-y-2">
+        {group.notifications.map((notification) => (
+          <PostCard
+            key={notification.id}
+            post={eventToPost(notification.event)}
+            highlighted={notification.createdAt > lastSeen}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const reactions = Array.from(
+    new Set(group.notifications.map((n) => (n.event.content === "+" ? "❤️" : n.event.content))),
+  );
+  const totalSats = group.notifications.reduce((sum, n) => sum + (n.amount ?? 0), 0);
+
+  return (
+    <Card className={cn(isUnread && "border-primary")}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Icon className="h-5 w-5 text-primary shrink-0" />
+          <div className="flex flex-wrap gap-1">
+            {actors.slice(0, MAX_ACTOR_AVATARS).map((actor) => (
+              <ActorAvatar key={actor} pubkey={actor} />
+            ))}
+          </div>
+        </div>
+        <p className="text-sm">
+          <ActorName pubkey={actors[0]} />
+          {actors.length > 1 && ` 他${actors.length - 1}人`}
+          {TYPE_LABELS[group.type]}
+          {group.type === "reaction" && ` ${reactions.join(" ")}`}
+          {group.type === "zap" && totalSats > 0 && ` (${totalSats} sats)`}
+          <span className="ml-2 text-muted-foreground">
+            {format(new Date(group.latestAt * 1000), "yyyy/MM/dd HH:mm")}
+          </span>
+        </p>
+        {group.targetId && <EmbeddedNote id={group.targetId} relays={[]} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function NotificationsPage() {
+  const { isLoading, groups, lastSeen, markAllRead } = useNotifications();
+  // 表示開始時点の既読位置で未読を強調する
+  const [initialLastSeen] = useState(lastSeen);
+
+  // 表示中に届いた通知も既読にする
+  useEffect(() => {
+    if (!isLoading) markAllRead();
+  }, [isLoading, groups, markAllRead]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <main className="max-w-2xl mx-auto space-y-4">
+          <h2 className="text-xl font-semibold">通知</h2>
+          {isLoading && groups.length === 0 ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-24" />
+              ))}
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">
+              通知はありません
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {groups.map((group) => (
+                <NotificationGroupCard key={group.key} group={group} lastSeen={initialLastSeen} />
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
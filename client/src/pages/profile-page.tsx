@@ -1,20 +1,32 @@
-import { useParams } from "wouter";
-import { useNostr } from "@/hooks/use-nostr";
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useLocation, useParams } from "wouter";
+import { useNostr, useUserMetadata } from "@/hooks/use-nostr";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/use-auth";
+import { useFollowLists } from "@/hooks/use-follow-lists";
 import PostCard from "@/components/post-card";
 import { Post } from "@shared/schema";
 import { Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useInView } from "react-intersection-observer";
 import debounce from "lodash/debounce";
+import CopyButton from "@/components/copy-button";
+import Nip05Badge from "@/components/nip05-badge";
+import FollowListDialog, { type FollowListTab } from "@/components/follow-list-dialog";
+import { encodeNpub, resolveProfilePointer, shortNpub } from "@/lib/nip19";
 
 export default function ProfilePage() {
-  const { pubkey } = useParams<{ pubkey: string }>();
+  const { pubkey: pubkeyParam } = useParams<{ pubkey: string }>();
+  // hex・npub・nprofileのいずれでも受け付ける
+  const pointer = useMemo(
+    () => (pubkeyParam ? resolveProfilePointer(pubkeyParam) : null),
+    [pubkeyParam],
+  );
+  const pubkey = pointer?.pubkey;
+  const relayHints = pointer?.relays;
 
   console.log('[ProfilePage] Rendered with params:', {
     pubkey,
@@ -23,14 +35,15 @@ export default function ProfilePage() {
   });
 
   const { 
-    getUserMetadata, 
     loadPostMetadata, 
     fetchUserPosts, 
+    loadCachedUserPosts,
     isFollowing, 
     toggleFollow, 
     isTogglingFollow 
   } = useNostr();
   const { user } = useAuth();
+  const [, setLocation] = useLocation();
   const [posts, setPosts] = useState<Post[]>([]);
   const [isLoadingPosts, setIsLoadingPosts] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
@@ -38,6 +51,8 @@ export default function ProfilePage() {
   const lastTimestamp = useRef<number>();
   const [hasMore, setHasMore] = useState(true);
   const searchTimeoutRef = useRef<NodeJS.Timeout>();
+  const followLists = useFollowLists(pubkey, relayHints);
+  const [followListTab, setFollowListTab] = useState<FollowListTab | null>(null);
 
   // 無限スクロール用のintersection observer
   const { ref: loadMoreRef, inView } = useInView({
@@ -53,6 +68,7 @@ export default function ProfilePage() {
         const searchResults = await fetchUserPosts({
           pubkey,
           search: term,
+          relays: relayHints,
           limit: 30,
         });
         setPosts(searchResults);
@@ -64,20 +80,32 @@ export default function ProfilePage() {
         setIsSearching(false);
       }
     }, 500),
-    [pubkey, fetchUserPosts]
+    [pubkey, relayHints, fetchUserPosts]
   );
 
   // 初期投稿の読み込み
   useEffect(() => {
     if (!pubkey) return;
 
+    let settled = false;
     const loadInitialPosts = async () => {
       setIsLoadingPosts(true);
+      // イベントストアにある投稿を先に表示し、リレーの結果で置き換える
+      loadCachedUserPosts(pubkey, 30)
+        .then((cachedPosts) => {
+          if (settled || cachedPosts.length === 0) return;
+          console.info(`[Profile] Showing ${cachedPosts.length} cached posts for user ${pubkey}`);
+          setPosts(cachedPosts);
+        })
+        .catch((error) => console.error("[Profile] Failed to load cached posts:", error));
+
       try {
         const initialPosts = await fetchUserPosts({
           pubkey,
           limit: 30,
+          relays: relayHints,
         });
+        settled = true;
         console.info(`[Profile] Loaded ${initialPosts.length} initial posts for user ${pubkey}`);
         setPosts(initialPosts);
         setHasMore(initialPosts.length === 30);
@@ -94,7 +122,10 @@ export default function ProfilePage() {
     };
 
     loadInitialPosts();
-  }, [pubkey, fetchUserPosts]);
+    return () => {
+      settled = true;
+    };
+  }, [pubkey, relayHints, fetchUserPosts, loadCachedUserPosts]);
 
   // メタデータの読み込み
   useEffect(() => {
@@ -114,6 +145,7 @@ export default function ProfilePage() {
             pubkey: pubkey!,
             until: lastTimestamp.current,
             limit: 30,
+            relays: relayHints,
           });
 
           if (morePosts.length > 0) {
@@ -135,7 +167,7 @@ export default function ProfilePage() {
 
       loadMorePosts();
     }
-  }, [inView, isLoadingPosts, hasMore, pubkey, fetchUserPosts, searchTerm]);
+  }, [inView, isLoadingPosts, hasMore, pubkey, relayHints, fetchUserPosts, searchTerm]);
 
   // 検索入力の処理
   const handleSearchInput = (value: string) => {
@@ -153,6 +185,7 @@ export default function ProfilePage() {
           const initialPosts = await fetchUserPosts({
             pubkey: pubkey!,
             limit: 30,
+            relays: relayHints,
           });
           setPosts(initialPosts);
           setHasMore(initialPosts.length === 30);
@@ -170,17 +203,29 @@ export default function ProfilePage() {
     }
   };
 
-  const metadata = getUserMetadata(pubkey);
-  const shortPubkey = pubkey?.slice(0, 8);
+  const metadata = useUserMetadata(pubkey);
 
   if (!pubkey) {
-    console.log('[ProfilePage] No pubkey provided, returning null');
+    console.log('[ProfilePage] Invalid or missing pubkey, returning null');
     return null;
   }
 
+  const npub = encodeNpub(pubkey);
+  const shortPubkey = pubkey.slice(0, 8);
+
   return (
     <div className="container mx-auto px-4 py-6 space-y-6">
-      <Card>
+      <Card className="overflow-hidden">
+        {metadata?.banner && (
+          <img
+            src={metadata.banner}
+            alt=""
+            className="h-40 w-full object-cover"
+            onError={(e) => {
+              (e.target as HTMLImageElement).style.display = "none";
+            }}
+          />
+        )}
         <CardHeader className="flex flex-row items-center gap-4">
           <Avatar className="h-20 w-20">
             {metadata?.picture ? (
@@ -193,34 +238,72 @@ export default function ProfilePage() {
               />
             ) : (
               <AvatarFallback className="text-lg">
-                {(metadata?.name?.[0] || shortPubkey?.slice(0, 2)).toUpperCase()}
+                {(metadata?.name?.[0] || shortPubkey.slice(0, 2)).toUpperCase()}
               </AvatarFallback>
             )}
           </Avatar>
           <div className="flex-grow">
             <h1 className="text-2xl font-bold">
-              {metadata?.name || `nostr:${shortPubkey}`}
+              {metadata?.name || shortNpub(pubkey)}
             </h1>
-            <p className="text-sm text-muted-foreground break-all">
-              {pubkey}
-            </p>
+            {metadata?.nip05 && (
+              <Nip05Badge pubkey={pubkey} nip05={metadata.nip05} showIdentifier />
+            )}
+            <div className="flex items-center gap-1">
+              <p className="text-sm text-muted-foreground break-all">
+                {npub}
+              </p>
+              <CopyButton value={npub} label="公開鍵をコピー" />
+            </div>
+            <div className="mt-1 flex gap-4 text-sm">
+              <button
+                type="button"
+                className="hover:underline"
+                onClick={() => setFollowListTab("following")}
+              >
+                <span className="font-semibold">
+                  {followLists.isLoadingFollowing ? "…" : followLists.following.length}
+                </span>{" "}
+                <span className="text-muted-foreground">フォロー中</span>
+              </button>
+              <button
+                type="button"
+                className="hover:underline"
+                onClick={() => setFollowListTab("followers")}
+              >
+                <span className="font-semibold">
+                  {followLists.isLoadingFollowerCount
+                    ? "…"
+                    : `${followLists.followerCount}${followLists.isFollowerCountEstimated ? "+" : ""}`}
+                </span>{" "}
+                <span className="text-muted-foreground">フォロワー</span>
+              </button>
+            </div>
             {metadata?.about && (
               <p className="mt-2 whitespace-pre-wrap">{metadata.about}</p>
             )}
           </div>
           {user?.publicKey !== pubkey && (
-            <Button 
-              variant="outline" 
-              onClick={() => toggleFollow(pubkey)}
-              disabled={isTogglingFollow}
-            >
-              {isFollowing(pubkey) ? 'フォロー解除' : 'フォロー'}
-            </Button>
+            <div className="flex flex-col gap-2">
+              <Button 
+                variant="outline" 
+                onClick={() => toggleFollow(pubkey)}
+                disabled={isTogglingFollow}
+              >
+                {isFollowing(pubkey) ? 'フォロー解除' : 'フォロー'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setLocation(`/messages/${npub}`)}
+              >
+                メッセージ
+              </Button>
+            </div>
           )}
         </CardHeader>
         <CardContent className="space-y-4">
           {metadata && Object.entries(metadata)
-            .filter(([key]) => !["name", "picture", "about"].includes(key))
+            .filter(([key, value]) => value && !["name", "picture", "about", "banner", "nip05"].includes(key))
             .map(([key, value]) => (
               <div key={key} className="flex flex-col">
                 <span className="text-sm font-medium">{key}</span>
@@ -232,6 +315,12 @@ export default function ProfilePage() {
         </CardContent>
       </Card>
 
+      <FollowListDialog
+        tab={followListTab}
+        onTabChange={setFollowListTab}
+        lists={followLists}
+      />
+
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-semibold">投稿</h2>
@@ -0,0 +1,155 @@
+import { useParams } from "wouter";
+import { useNostr, getReplyParentId, debugLog, type ThreadData } from "@/hooks/use-nostr";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import PostCard from "@/components/post-card";
+import Navbar from "@/components/navbar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Post } from "@shared/schema";
+import { resolveEventPointer } from "@/lib/nip19";
+
+// インデントの最大深さ（深いスレッドでも幅が潰れないようにする）
+const MAX_INDENT_DEPTH = 6;
+
+interface ThreadNode {
+  post: Post;
+  children: ThreadNode[];
+}
+
+// 親子関係からスレッドの木構造を組み立てる
+function buildThreadTree(posts: Post[]): ThreadNode[] {
+  const nodes = new Map<string, ThreadNode>();
+  posts.forEach((post) => nodes.set(post.nostrEventId, { post, children: [] }));
+
+  const roots: ThreadNode[] = [];
+  posts.forEach((post) => {
+    const node = nodes.get(post.nostrEventId)!;
+    const parentId = getReplyParentId(post.metadata?.tags || []);
+    const parent = parentId ? nodes.get(parentId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      // 親が見つからない投稿はトップレベルに表示する
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+export default function ThreadPage() {
+  const { id: idParam } = useParams<{ id: string }>();
+  // hex・note・neventのいずれでも受け付ける
+  const pointer = useMemo(() => (idParam ? resolveEventPointer(idParam) : null), [idParam]);
+  const id = pointer?.id;
+  const relayHints = pointer?.relays;
+  const { fetchThread, loadCachedThread, isLoadingPosts } = useNostr();
+  const [thread, setThread] = useState<ThreadData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // リレーへの接続を待たずに、イベントストアにある分を先に表示する
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    loadCachedThread(id)
+      .then((data) => {
+        if (cancelled || !data.target) return;
+        debugLog(`Loaded cached thread for note ${id}`);
+        // リレーからの結果が先に届いていれば上書きしない
+        setThread((current) => current ?? data);
+      })
+      .catch((error) => console.error("[Thread] Failed to load cached thread:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [id, loadCachedThread]);
+
+  useEffect(() => {
+    if (!id || isLoadingPosts) return;
+
+    let cancelled = false;
+    const loadThread = async () => {
+      setIsLoading(true);
+      try {
+        const data = await fetchThread(id, relayHints);
+        if (!cancelled) {
+          debugLog(`Loaded thread for note ${id}`);
+          // リレーで見つからなかった場合はキャッシュ済みの表示を残す
+          setThread((current) => (data.target || !current?.target ? data : current));
+        }
+      } catch (error) {
+        console.error("[Thread] Failed to load thread:", error);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadThread();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, relayHints, isLoadingPosts, fetchThread]);
+
+  // 自分の返信をスレッドに即時反映する
+  const handleReply = useCallback((reply: Post) => {
+    setThread((current) =>
+      current ? { ...current, replies: [...current.replies, reply] } : current,
+    );
+  }, []);
+
+  const tree = useMemo(() => {
+    if (!thread) return [];
+    const posts = [
+      ...(thread.root ? [thread.root] : []),
+      ...thread.ancestors,
+      ...(thread.target && thread.target.nostrEventId !== thread.root?.nostrEventId
+        ? [thread.target]
+        : []),
+      ...thread.replies,
+    ];
+    return buildThreadTree(posts);
+  }, [thread]);
+
+  const renderNode = (node: ThreadNode, depth: number) => (
+    <div key={node.post.nostrEventId} className="space-y-4">
+      <PostCard
+        post={node.post}
+        highlighted={node.post.nostrEventId === thread?.target?.nostrEventId}
+        onReply={handleReply}
+      />
+      {node.children.length > 0 && (
+        <div className={depth < MAX_INDENT_DEPTH ? "ml-4 pl-4 border-l space-y-4" : "space-y-4"}>
+          {node.children.map((child) => renderNode(child, depth + 1))}
+        </div>
+      )}
+    </div>
+  );
+
+  if (!id) return null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <main className="max-w-2xl mx-auto space-y-4">
+          <h2 className="text-xl font-semibold">スレッド</h2>
+          {isLoading && !thread?.target ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-32" />
+              ))}
+            </div>
+          ) : !thread?.target ? (
+            <p className="text-center text-muted-foreground py-4">
+              投稿が見つかりません
+            </p>
+          ) : (
+            <div className="space-y-4">{tree.map((node) => renderNode(node, 0))}</div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Loader2, Lock, ShieldAlert } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { shortNpub } from "@/lib/nip19";
+import NewPassphraseForm from "@/components/new-passphrase-form";
+
+// NIP-49: ロック中の鍵の解除、または平文で保存されていた鍵へのパスフレーズ設定
+export default function UnlockPage() {
+  const { user, needsPassphrase, unlock, setPassphrase, logout } = useAuth();
+  const { toast } = useToast();
+  const [passphrase, setPassphraseInput] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsSubmitting(false);
+      setPassphraseInput("");
+    }
+  };
+
+  const handleSetPassphrase = async (newPassphrase: string) => {
+    setIsSubmitting(true);
+    try {
+      await setPassphrase(newPassphrase);
+      toast({
+        title: "成功",
+        description: "秘密鍵をパスフレーズで暗号化しました",
+      });
+    } catch (e) {
+      toast({
+        title: "エラー",
+        description: (e as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {needsPassphrase ? <ShieldAlert className="h-5 w-5" /> : <Lock className="h-5 w-5" />}
+            {needsPassphrase ? "Protect Your Key" : "Unlock"}
+          </CardTitle>
+          <CardDescription>
+            {needsPassphrase
+              ? "Your private key is stored unencrypted in this browser. Set a passphrase to encrypt it."
+              : `Enter your passphrase to unlock ${shortNpub(user.publicKey)}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {needsPassphrase ? (
+            <NewPassphraseForm
+              onSubmit={handleSetPassphrase}
+              isSubmitting={isSubmitting}
+              submitLabel="Encrypt Key"
+            />
+          ) : (
+            <form className="space-y-3" onSubmit={handleUnlock}>
+              <div className="space-y-2">
+                <Label htmlFor="unlock-passphrase">Passphrase</Label>
+                <Input
+                  id="unlock-passphrase"
+                  type="password"
+                  autoComplete="current-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphraseInput(e.target.value)}
+                  autoFocus
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <Button type="submit" className="w-full" disabled={isSubmitting || !passphrase}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Unlock
+              </Button>
+            </form>
+          )}
+          <Button variant="link" className="w-full" onClick={() => logout()}>
+            Use a different account
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
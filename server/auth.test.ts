@@ -0,0 +1,86 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { verifyEvent } from "nostr-tools";
+import { MemStorage, startTestServer } from "./test-utils";
+import { decryptPrivateKey, isEncryptedPrivateKey } from "./key-encryption";
+import { derivePublicKey } from "./keys";
+
+describe("username/password accounts", () => {
+  const storage = new MemStorage();
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+
+  before(async () => {
+    server = await startTestServer(storage);
+  });
+  after(() => server.close());
+
+  it("registers, logs in and signs events with the stored key", async () => {
+    const registerClient = server.createClient();
+    const registered = await registerClient("POST", "/api/register", {
+      username: "alice",
+      password: "correct horse",
+    });
+    assert.equal(registered.status, 201);
+    assert.equal(registered.body.privateKey, undefined);
+    assert.equal(registered.body.password, undefined);
+
+    // 秘密鍵は暗号化して保存され、公開鍵はその秘密鍵から導出したものになる
+    const stored = await storage.getUserByUsername("alice");
+    assert.ok(stored && isEncryptedPrivateKey(stored.privateKey));
+    assert.equal(derivePublicKey(decryptPrivateKey(stored.privateKey)), registered.body.publicKey);
+
+    const client = server.createClient();
+    const loggedIn = await client("POST", "/api/login", {
+      username: "alice",
+      password: "correct horse",
+    });
+    assert.equal(loggedIn.status, 200);
+    assert.equal(loggedIn.body.publicKey, registered.body.publicKey);
+
+    const template = { kind: 1, content: "hello", tags: [["t", "test"]], created_at: 1700000000 };
+    const signed = await client("POST", "/api/sign", template);
+    assert.equal(signed.status, 200);
+    assert.equal(signed.body.pubkey, registered.body.publicKey);
+    assert.equal(signed.body.created_at, template.created_at);
+    assert.deepEqual(signed.body.tags, template.tags);
+    assert.ok(verifyEvent(signed.body));
+
+    const relays = [{ url: "wss://relay.example.com", read: true, write: true }];
+    const savedRelays = await client("POST", "/api/relays", { relays });
+    assert.equal(savedRelays.status, 200);
+    assert.deepEqual((await storage.getUser(stored.id))?.relays, relays);
+
+    assert.equal((await client("POST", "/api/logout")).status, 200);
+    assert.equal((await client("POST", "/api/sign", template)).status, 401);
+  });
+
+  it("rejects kinds that are not allowed for the account", async () => {
+    const client = server.createClient();
+    await client("POST", "/api/register", { username: "bob", password: "hunter22" });
+
+    const res = await client("POST", "/api/sign", { kind: 4, content: "secret", tags: [] });
+    assert.equal(res.status, 403);
+  });
+
+  it("rejects wrong passwords and duplicate usernames", async () => {
+    const client = server.createClient();
+    await client("POST", "/api/register", { username: "carol", password: "password1" });
+
+    const login = await server.createClient()("POST", "/api/login", {
+      username: "carol",
+      password: "wrong",
+    });
+    assert.equal(login.status, 401);
+
+    const duplicate = await server.createClient()("POST", "/api/register", {
+      username: "carol",
+      password: "password2",
+    });
+    assert.equal(duplicate.status, 400);
+  });
+
+  it("requires a session to sign", async () => {
+    const res = await server.createClient()("POST", "/api/sign", { kind: 1, content: "", tags: [] });
+    assert.equal(res.status, 401);
+  });
+});
@@ -4,10 +4,11 @@ import { Express } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { storage } from "./storage";
+import { storage as defaultStorage, type IStorage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
 import { log } from "./vite";
-import crypto from 'crypto';
+import { generateKeyPair } from "./keys";
+import { encryptPrivateKey } from "./key-encryption";
 
 declare global {
   namespace Express {
@@ -30,7 +31,12 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// レスポンスに秘密鍵とパスワードハッシュを含めない
+function toPublicUser({ privateKey: _privateKey, password: _password, ...user }: SelectUser) {
+  return user;
+}
+
+export function setupAuth(app: Express, storage: IStorage = defaultStorage) {
   log("[Auth] Setting up authentication...");
 
   const sessionSettings: session.SessionOptions = {
@@ -111,18 +117,13 @@ export function setupAuth(app: Express) {
       }
 
       // Generate keys for Nostr
-      const privateKeyBytes = new Uint8Array(32);
-      crypto.getRandomValues(privateKeyBytes);
-      const privateKey = Array.from(privateKeyBytes)
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-      const publicKey = privateKey; // For testing only
-
+      const { privateKey, publicKey } = generateKeyPair();
 
       const user = await storage.createUser({
         username,
         password: await hashPassword(password),
-        privateKey,
+        // 秘密鍵は暗号化して保存する
+        privateKey: encryptPrivateKey(privateKey),
         publicKey
       });
 
@@ -133,7 +134,7 @@ export function setupAuth(app: Express) {
           log(`[Auth] Login after registration failed: ${err}`);
           return next(err);
         }
-        res.status(201).json(user);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (error: any) {
       log(`[Auth] Registration error: ${error.message}`);
@@ -158,7 +159,7 @@ export function setupAuth(app: Express) {
           return next(err);
         }
         log(`[Auth] User logged in successfully: ${user.username}`);
-        res.json(user);
+        res.json(toPublicUser(user));
       });
     })(req, res, next);
   });
@@ -185,7 +186,7 @@ export function setupAuth(app: Express) {
       return res.status(401).json({ error: "Not authenticated" });
     }
     log(`[Auth] User data retrieved: ${req.user.username}`);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
   });
 
   log("[Auth] Authentication setup completed");
@@ -1,9 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { validateKeyEncryptionConfig } from "./key-encryption";
 
 const app = express();
 
+// ログに残さない項目（秘密鍵・パスワード・署名）
+const REDACTED_KEYS = new Set(["privateKey", "password", "sig", "nsec", "ncryptsec"]);
+
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      REDACTED_KEYS.has(key) ? "[REDACTED]" : redactSecrets(entry),
+    ]),
+  );
+}
+
 // Basic middleware setup
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
@@ -27,10 +42,10 @@ app.use((req, res, next) => {
     if (path.startsWith('/api')) {
       log(`[DEBUG] ${req.method} ${path} ${res.statusCode} - ${duration}ms`);
       if (req.method !== 'GET') {
-        log(`[DEBUG] Request Body: ${JSON.stringify(req.body)}`);
+        log(`[DEBUG] Request Body: ${JSON.stringify(redactSecrets(req.body))}`);
       }
       if (responseBody) {
-        log(`[DEBUG] Response: ${JSON.stringify(responseBody)}`);
+        log(`[DEBUG] Response: ${JSON.stringify(redactSecrets(responseBody))}`);
       }
     }
   });
@@ -48,6 +63,8 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 
 (async () => {
   try {
+    // 秘密鍵の暗号化設定（PRIVATE_KEY_KEKS）の誤りは起動時に検出する
+    validateKeyEncryptionConfig();
     const server = registerRoutes(app);
 
     if (app.get("env") === "development") {
@@ -0,0 +1,139 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// users.privateKeyのエンベロープ暗号化
+// レコードごとのデータ鍵（DEK）で秘密鍵を暗号化し、DEKを環境変数の鍵暗号化鍵（KEK）で包む
+// 保存形式: enc:<KEKのバージョン>:<包んだDEK>:<暗号化した秘密鍵>（いずれもbase64のiv+暗号文+タグ）
+//
+// PRIVATE_KEY_KEKS="1:<32バイトの鍵（hexまたはbase64）>,2:<...>"
+// PRIVATE_KEY_KEK_VERSION=2  新しく暗号化する際に使うバージョン（未指定は最大のもの）
+// 設定方法とローテーションの手順は docs/private-key-encryption.md を参照
+
+const ENCRYPTED_PREFIX = "enc";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+let keks: Map<string, Buffer> | null = null;
+
+function parseKey(value: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== 32) {
+    throw new Error("Key-encryption keys must be 32 bytes (hex or base64)");
+  }
+  return key;
+}
+
+function loadKeks(): Map<string, Buffer> {
+  if (keks) return keks;
+
+  const config = process.env.PRIVATE_KEY_KEKS;
+  if (!config) {
+    throw new Error("PRIVATE_KEY_KEKS must be set to encrypt private keys");
+  }
+  keks = new Map(
+    config.split(",").map((entry) => {
+      const [version, key] = entry.trim().split(":");
+      if (!version || !key) {
+        throw new Error("PRIVATE_KEY_KEKS entries must be in the form <version>:<key>");
+      }
+      return [version, parseKey(key)];
+    }),
+  );
+  return keks;
+}
+
+export function getCurrentKekVersion(): string {
+  const versions = Array.from(loadKeks().keys());
+  const current =
+    process.env.PRIVATE_KEY_KEK_VERSION ||
+    versions.sort((a, b) => Number(b) - Number(a) || b.localeCompare(a))[0];
+  if (!loadKeks().has(current)) {
+    throw new Error(`Key-encryption key version ${current} is not configured`);
+  }
+  return current;
+}
+
+function getKek(version: string): Buffer {
+  const kek = loadKeks().get(version);
+  if (!kek) {
+    throw new Error(`Key-encryption key version ${version} is not configured`);
+  }
+  return kek;
+}
+
+// KEKのバージョンを認証データに含め、別のバージョンのレコードとして読ませない
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(data.length - TAG_LENGTH);
+  const ciphertext = data.subarray(IV_LENGTH, data.length - TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function parseEncrypted(stored: string) {
+  const [prefix, version, wrappedDek, ciphertext] = stored.split(":");
+  if (prefix !== ENCRYPTED_PREFIX || !version || !wrappedDek || !ciphertext) {
+    throw new Error("Invalid encrypted private key");
+  }
+  return { version, wrappedDek, ciphertext };
+}
+
+export function isEncryptedPrivateKey(stored: string): boolean {
+  return stored.startsWith(`${ENCRYPTED_PREFIX}:`);
+}
+
+// 起動時に設定を検証し、誤りがあればリクエスト時ではなく起動時に失敗させる
+export function validateKeyEncryptionConfig() {
+  const version = getCurrentKekVersion();
+  const probe = "0".repeat(64);
+  if (decryptPrivateKey(encryptPrivateKey(probe)) !== probe) {
+    throw new Error(`Key-encryption key version ${version} failed a round-trip check`);
+  }
+}
+
+// 暗号化に使ったKEKのバージョン（平文の場合はnull）
+export function getPrivateKeyVersion(stored: string): string | null {
+  return isEncryptedPrivateKey(stored) ? parseEncrypted(stored).version : null;
+}
+
+export function encryptPrivateKey(privateKey: string): string {
+  const version = getCurrentKekVersion();
+  const dek = randomBytes(32);
+  const wrappedDek = seal(getKek(version), dek, `kek:${version}`);
+  const ciphertext = seal(dek, Buffer.from(privateKey, "utf8"), "private-key");
+  return [ENCRYPTED_PREFIX, version, wrappedDek, ciphertext].join(":");
+}
+
+// 暗号化前に保存された平文の秘密鍵もそのまま返す（ローテーションで暗号化される）
+export function decryptPrivateKey(stored: string): string {
+  if (!isEncryptedPrivateKey(stored)) return stored;
+
+  const { version, wrappedDek, ciphertext } = parseEncrypted(stored);
+  const dek = open(getKek(version), wrappedDek, `kek:${version}`);
+  return open(dek, ciphertext, "private-key").toString("utf8");
+}
+
+// 現在のKEKで包み直す。DEKのみを包み直すため、秘密鍵の暗号文は変わらない
+// 平文の場合は新しく暗号化する。変更が不要な場合はnull
+export function rewrapPrivateKey(stored: string): string | null {
+  if (!isEncryptedPrivateKey(stored)) return encryptPrivateKey(stored);
+
+  const current = getCurrentKekVersion();
+  const { version, wrappedDek, ciphertext } = parseEncrypted(stored);
+  if (version === current) return null;
+
+  const dek = open(getKek(version), wrappedDek, `kek:${version}`);
+  const rewrapped = seal(getKek(current), dek, `kek:${current}`);
+  return [ENCRYPTED_PREFIX, current, rewrapped, ciphertext].join(":");
+}
@@ -0,0 +1,23 @@
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+
+// サーバーで生成するNostrの鍵ペア（いずれも16進数文字列）
+
+const HEX64_PATTERN = /^[0-9a-f]{64}$/i;
+
+export function generateKeyPair() {
+  const secretKey = generateSecretKey();
+  return {
+    privateKey: Buffer.from(secretKey).toString("hex"),
+    publicKey: getPublicKey(secretKey),
+  };
+}
+
+// 秘密鍵からx-only（BIP-340）の公開鍵を求める。不正な秘密鍵の場合はnull
+export function derivePublicKey(privateKey: string): string | null {
+  if (!HEX64_PATTERN.test(privateKey)) return null;
+  try {
+    return getPublicKey(Buffer.from(privateKey, "hex"));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,45 @@
+import { eq } from "drizzle-orm";
+import { users } from "@shared/schema";
+import { db, pool } from "../db";
+import { derivePublicKey } from "../keys";
+import { decryptPrivateKey } from "../key-encryption";
+
+// 公開鍵に秘密鍵がそのまま保存されていた既存のユーザーを修復する
+// 秘密鍵から正しい公開鍵を求め直すため、何度実行しても結果は変わらない
+async function repairPublicKeys() {
+  const rows = await db
+    .select({ id: users.id, username: users.username, publicKey: users.publicKey, privateKey: users.privateKey })
+    .from(users);
+
+  let repaired = 0;
+  let invalid = 0;
+  for (const row of rows) {
+    let publicKey: string | null = null;
+    try {
+      publicKey = derivePublicKey(decryptPrivateKey(row.privateKey));
+    } catch (error) {
+      console.warn(`[Migration] Could not decrypt private key for user ${row.id}:`, error);
+    }
+    if (!publicKey) {
+      // 秘密鍵自体が不正、または復号できない場合は手動で対応する
+      console.warn(`[Migration] Skipping user ${row.id} (${row.username}): invalid private key`);
+      invalid++;
+      continue;
+    }
+    if (row.publicKey === publicKey) continue;
+
+    await db.update(users).set({ publicKey }).where(eq(users.id, row.id));
+    repaired++;
+  }
+
+  console.log(
+    `[Migration] Checked ${rows.length} users: repaired ${repaired}, skipped ${invalid} with invalid private keys`,
+  );
+}
+
+repairPublicKeys()
+  .catch((error) => {
+    console.error("[Migration] Failed to repair public keys:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,40 @@
+import { eq } from "drizzle-orm";
+import { users } from "@shared/schema";
+import { db, pool } from "../db";
+import { getCurrentKekVersion, rewrapPrivateKey } from "../key-encryption";
+
+// 保存済みの秘密鍵を現在のKEK（PRIVATE_KEY_KEK_VERSION）で包み直す
+// 平文のまま保存されている秘密鍵はこのとき暗号化される
+// 古いKEKは、すべてのレコードを包み直すまで PRIVATE_KEY_KEKS に残しておくこと
+async function rotatePrivateKeys() {
+  const version = getCurrentKekVersion();
+  const rows = await db
+    .select({ id: users.id, privateKey: users.privateKey })
+    .from(users);
+
+  let rotated = 0;
+  let failed = 0;
+  for (const row of rows) {
+    try {
+      const privateKey = rewrapPrivateKey(row.privateKey);
+      if (!privateKey) continue;
+      await db.update(users).set({ privateKey }).where(eq(users.id, row.id));
+      rotated++;
+    } catch (error) {
+      console.error(`[Migration] Failed to rotate private key for user ${row.id}:`, error);
+      failed++;
+    }
+  }
+
+  console.log(
+    `[Migration] Checked ${rows.length} users: rotated ${rotated} to key version ${version}, failed ${failed}`,
+  );
+  if (failed > 0) process.exitCode = 1;
+}
+
+rotatePrivateKeys()
+  .catch((error) => {
+    console.error("[Migration] Failed to rotate private keys:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,89 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage, startTestServer } from "./test-utils";
+
+// 同時に同じ名前を取得した場合（一意制約違反）を再現するストレージ
+class ConflictingStorage extends MemStorage {
+  conflictOn: string | null = null;
+
+  async updateUserNip05Name(userId: number, name: string | null) {
+    if (name !== null && name === this.conflictOn) {
+      throw Object.assign(new Error("duplicate key value violates unique constraint"), {
+        code: "23505",
+      });
+    }
+    return super.updateUserNip05Name(userId, name);
+  }
+}
+
+describe("/api/nip05", () => {
+  const storage = new ConflictingStorage();
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let alice: ReturnType<typeof server.createClient>;
+  let bob: ReturnType<typeof server.createClient>;
+
+  before(async () => {
+    server = await startTestServer(storage);
+    alice = server.createClient();
+    bob = server.createClient();
+    await alice("POST", "/api/register", { username: "alice", password: "password1" });
+    await bob("POST", "/api/register", { username: "bob", password: "password2" });
+  });
+  after(() => server.close());
+  beforeEach(() => {
+    storage.conflictOn = null;
+  });
+
+  it("requires a session", async () => {
+    const res = await server.createClient()("PUT", "/api/nip05", { name: "someone" });
+    assert.equal(res.status, 401);
+  });
+
+  it("rejects reserved names", async () => {
+    for (const name of ["admin", "support", "Nostr"]) {
+      const res = await alice("PUT", "/api/nip05", { name });
+      assert.equal(res.status, 400, name);
+      assert.equal(res.body.error, "This name is reserved");
+    }
+  });
+
+  it("rejects names with an invalid format", async () => {
+    for (const name of ["a", "-alice", "al ice", "alice@example.com", "x".repeat(31)]) {
+      const res = await alice("PUT", "/api/nip05", { name });
+      assert.equal(res.status, 400, name);
+    }
+  });
+
+  it("claims a name and serves it from nostr.json", async () => {
+    const claimed = await alice("PUT", "/api/nip05", { name: " Alice " });
+    assert.equal(claimed.status, 200);
+    assert.equal(claimed.body.name, "alice");
+    assert.match(claimed.body.identifier, /^alice@/);
+
+    const user = await storage.getUserByUsername("alice");
+    const lookup = await server.createClient()("GET", "/.well-known/nostr.json?name=alice");
+    assert.deepEqual(lookup.body.names, { alice: user!.publicKey });
+  });
+
+  it("returns 409 when the name belongs to another user", async () => {
+    await alice("PUT", "/api/nip05", { name: "alice" });
+    const res = await bob("PUT", "/api/nip05", { name: "alice" });
+    assert.equal(res.status, 409);
+  });
+
+  it("returns 409 when the unique constraint rejects a concurrent claim", async () => {
+    storage.conflictOn = "racer";
+    const res = await bob("PUT", "/api/nip05", { name: "racer" });
+    assert.equal(res.status, 409);
+    assert.equal(res.body.error, "Name is already taken");
+  });
+
+  it("releases the name", async () => {
+    await alice("PUT", "/api/nip05", { name: "alice" });
+    const res = await alice("DELETE", "/api/nip05");
+    assert.equal(res.status, 200);
+
+    const lookup = await server.createClient()("GET", "/.well-known/nostr.json?name=alice");
+    assert.deepEqual(lookup.body, { names: {} });
+  });
+});
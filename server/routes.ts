@@ -1,8 +1,10 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { insertPostSchema, relaySchema } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { DEFAULT_SIGNING_KINDS, insertPostSchema, relaySchema } from "@shared/schema";
+import { finalizeEvent } from "nostr-tools";
+import { decryptPrivateKey } from "./key-encryption";
 import { log } from "./vite";
 import { z } from "zod";
 
@@ -13,14 +15,152 @@ const updateProfileSchema = z.object({
   picture: z.string().url("Invalid profile picture URL").optional(),
 });
 
-export function registerRoutes(app: Express): Server {
+// NIP-05: name@ドメインとして公開する名前
+// 小文字英数字と「-_.」のみ（nostr.jsonのキーとして大文字小文字の揺れを避ける）
+const RESERVED_NIP05_NAMES = new Set([
+  "_",
+  "admin",
+  "administrator",
+  "root",
+  "support",
+  "help",
+  "info",
+  "security",
+  "abuse",
+  "postmaster",
+  "webmaster",
+  "hostmaster",
+  "moderator",
+  "system",
+  "api",
+  "www",
+  "nostr",
+]);
+
+const nip05NameSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(2, "Name must be at least 2 characters")
+    .max(30, "Name must be at most 30 characters")
+    .regex(/^[a-z0-9][a-z0-9._-]*$/, "Name may only contain a-z, 0-9, '.', '_' and '-'")
+    .refine((name) => !RESERVED_NIP05_NAMES.has(name), "This name is reserved"),
+});
+
+// 署名を依頼するイベントのテンプレート（pubkey・id・sigはサーバーで付与する）
+const signEventSchema = z.object({
+  kind: z.number().int().min(0).max(65535),
+  content: z.string().max(64 * 1024, "Content is too long"),
+  tags: z.array(z.array(z.string())).max(2000, "Too many tags").default([]),
+  created_at: z.number().int().positive().optional(),
+});
+
+// 署名時刻の未来方向の許容幅（秒）
+const MAX_FUTURE_CREATED_AT = 10 * 60;
+
+// NIP-05の識別子に使うドメイン（未設定の場合はリクエストのホスト名）
+function getNip05Domain(hostname: string) {
+  return process.env.NIP05_DOMAIN || hostname;
+}
+
+// storageはテストでメモリ上の実装に差し替えられる
+export function registerRoutes(app: Express, storage: IStorage = defaultStorage): Server {
   // Add debug middleware
   app.use((req, res, next) => {
     console.log(`[DEBUG] ${req.method} ${req.path}`);
     next();
   });
 
-  setupAuth(app);
+  setupAuth(app, storage);
+
+  // NIP-05: 名前から公開鍵を引けるようにする（他のクライアントから取得されるためCORSを許可する）
+  app.options("/.well-known/nostr.json", (_req, res) => {
+    res.set({
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+    });
+    res.sendStatus(204);
+  });
+
+  app.get("/.well-known/nostr.json", async (req, res) => {
+    res.set("Access-Control-Allow-Origin", "*");
+
+    // 全ユーザーの一覧は返さず、問い合わせられた名前のみ返す
+    const name = typeof req.query.name === "string" ? req.query.name.toLowerCase() : "";
+    if (!name) return res.json({ names: {} });
+
+    try {
+      const user = await storage.getUserByNip05Name(name);
+      if (!user) return res.json({ names: {} });
+
+      // 書き込みリレーを投稿が見つかる場所として案内する
+      const relays = user.relays.filter((relay) => relay.write).map((relay) => relay.url);
+      res.json({
+        names: { [name]: user.publicKey },
+        ...(relays.length > 0 && { relays: { [user.publicKey]: relays } }),
+      });
+    } catch (error) {
+      console.error("[NIP-05] Lookup error:", error);
+      res.status(500).json({ error: "Failed to look up name" });
+    }
+  });
+
+  // 自分のNIP-05の名前を取得・取得/変更・解放する
+  app.get("/api/nip05", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const name = req.user.nip05Name;
+    res.json({
+      name,
+      identifier: name ? `${name}@${getNip05Domain(req.hostname)}` : null,
+    });
+  });
+
+  app.put("/api/nip05", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parsed = nip05NameSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0].message });
+    }
+    const { name } = parsed.data;
+
+    try {
+      const owner = await storage.getUserByNip05Name(name);
+      if (owner && owner.id !== req.user.id) {
+        return res.status(409).json({ error: "Name is already taken" });
+      }
+
+      log(`[NIP-05] Claiming name ${name} for user: ${req.user.username}`);
+      const updated = await storage.updateUserNip05Name(req.user.id, name);
+      if (!updated) return res.status(404).json({ error: "User not found" });
+
+      res.json({ name, identifier: `${name}@${getNip05Domain(req.hostname)}` });
+    } catch (error: any) {
+      // 同時に同じ名前が取得された場合は一意制約で弾かれる
+      if (error?.code === "23505") {
+        return res.status(409).json({ error: "Name is already taken" });
+      }
+      console.error("[NIP-05] Claim error:", error);
+      res.status(500).json({ error: "Failed to claim name" });
+    }
+  });
+
+  app.delete("/api/nip05", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      log(`[NIP-05] Releasing name for user: ${req.user.username}`);
+      const updated = await storage.updateUserNip05Name(req.user.id, null);
+      if (!updated) return res.status(404).json({ error: "User not found" });
+
+      res.json({ name: null, identifier: null });
+    } catch (error) {
+      console.error("[NIP-05] Release error:", error);
+      res.status(500).json({ error: "Failed to release name" });
+    }
+  });
 
   // Profile update endpoint
   app.post("/api/profile", async (req, res) => {
@@ -44,13 +184,50 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // サーバーに保管している鍵でイベントに署名する（ユーザーごとに許可したkindのみ）
+  app.post("/api/sign", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parsed = signEventSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0].message });
+    }
+    const { kind, content, tags } = parsed.data;
+    const now = Math.floor(Date.now() / 1000);
+    const createdAt = parsed.data.created_at ?? now;
+    if (createdAt > now + MAX_FUTURE_CREATED_AT) {
+      return res.status(400).json({ error: "created_at is too far in the future" });
+    }
+
+    const allowedKinds = req.user.signingKinds ?? DEFAULT_SIGNING_KINDS;
+    if (!allowedKinds.includes(kind)) {
+      log(`[Sign] Rejected kind ${kind} for user: ${req.user.username}`);
+      return res.status(403).json({ error: `Signing kind ${kind} is not allowed for this account` });
+    }
+
+    try {
+      const secretKey = Buffer.from(decryptPrivateKey(req.user.privateKey), "hex");
+      const event = finalizeEvent({ kind, content, tags, created_at: createdAt }, secretKey);
+      log(`[Sign] Signed kind ${kind} event ${event.id} for user: ${req.user.username}`);
+      res.json(event);
+    } catch (error) {
+      console.error("[Sign] Signing error:", error);
+      res.status(500).json({ error: "Failed to sign event" });
+    }
+  });
+
   // Posts
   app.post("/api/posts", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     const validatedPost = insertPostSchema.parse(req.body);
 
     try {
-      const post = await storage.createPost(validatedPost.content, req.user.id);
+      const post = await storage.createPost(validatedPost.content, req.user.id, {
+        id: validatedPost.nostrEventId,
+        pubkey: validatedPost.pubkey,
+        sig: validatedPost.signature,
+        metadata: validatedPost.metadata,
+      });
       res.json(post);
     } catch (error) {
       console.error('[Posts] Create post error:', error);
@@ -1,15 +1,60 @@
-import { posts, type Post } from "@shared/schema";
-import { db } from "./db";
+import { posts, users, type Post, type Relay, type User } from "@shared/schema";
+import { db, pool } from "./db";
 import { eq, desc } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+// relays・followingなど既定値のある列は省略できる
+type NewUser = typeof users.$inferInsert;
 
 export interface IStorage {
+  sessionStore: session.Store;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: NewUser): Promise<User>;
   getPosts(): Promise<Post[]>;
   createPost(content: string, userId: number, nostrEvent: { id: string; pubkey: string; sig: string; metadata?: any }): Promise<Post>;
   cacheNostrEvent(userId: number, event: { id: string; pubkey: string; content: string; sig: string; tags?: string[][]; relays?: string[] }): Promise<Post>;
   getPostByNostrId(eventId: string): Promise<Post | undefined>;
+  getUserByNip05Name(name: string): Promise<User | undefined>;
+  updateUserNip05Name(userId: number, name: string | null): Promise<User | undefined>;
+  updateUserRelays(userId: number, relays: Relay[]): Promise<User | undefined>;
+  updateUserProfile(
+    userId: number,
+    profile: { name?: string; about?: string; picture?: string },
+  ): Promise<User | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
+  // ログインセッションはusersと同じデータベースに保存する
+  sessionStore: session.Store = new PostgresSessionStore({ pool, createTableIfMissing: true });
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: NewUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values(insertUser)
+      .returning();
+    return user;
+  }
+
   async getPosts(): Promise<Post[]> {
     return await db
       .select()
@@ -64,6 +109,45 @@ export class DatabaseStorage implements IStorage {
       .where(eq(posts.nostrEventId, eventId));
     return post;
   }
+
+  async getUserByNip05Name(name: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.nip05Name, name));
+    return user;
+  }
+
+  // nullを渡すと名前を解放する
+  async updateUserNip05Name(userId: number, name: string | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ nip05Name: name })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async updateUserRelays(userId: number, relays: Relay[]): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ relays })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async updateUserProfile(
+    userId: number,
+    profile: { name?: string; about?: string; picture?: string },
+  ): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(profile)
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
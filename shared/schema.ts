@@ -17,9 +17,17 @@ export const users = pgTable("users", {
   // Add profile fields
   name: text("name"),
   about: text("about"),
-  picture: text("picture")
+  picture: text("picture"),
+  // NIP-05: name@ドメインとして公開する名前（未設定はnull）
+  nip05Name: text("nip05_name").unique(),
+  // /api/signで署名を許可するkind（nullの場合はDEFAULT_SIGNING_KINDS）
+  signingKinds: integer("signing_kinds").array()
 });
 
+// サーバー署名で既定で許可するkind
+// メタデータ・投稿・コンタクトリスト・削除・リポスト・リアクション・リレーリスト
+export const DEFAULT_SIGNING_KINDS = [0, 1, 3, 5, 6, 7, 10002];
+
 export const posts = pgTable("posts", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
@@ -31,6 +39,7 @@ export const posts = pgTable("posts", {
   metadata: json("metadata").$type<{
     tags?: string[][];
     relays?: string[];
+    kind?: number; // Nostrイベントのkind（未指定はkind 1）
   }>()
 });
 
@@ -66,7 +75,8 @@ export const insertPostSchema = createInsertSchema(posts, {
   signature: z.string(),
   metadata: z.object({
     tags: z.array(z.array(z.string())).optional(),
-    relays: z.array(z.string()).optional()
+    relays: z.array(z.string()).optional(),
+    kind: z.number().optional()
   }).optional()
 }).pick({
   content: true,